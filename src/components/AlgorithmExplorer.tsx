@@ -0,0 +1,158 @@
+import type { ReactNode } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { algorithms, type AlgorithmId, type AlgorithmStep } from '@/lib/graphAlgorithms';
+import { graphColors } from '@/lib/graphScene';
+
+// Value for the "no target" option; Radix Select doesn't allow an empty string
+const NO_TARGET = '__none__';
+// Items listed per queue/stack before collapsing the rest into a count
+const MAX_INSPECTOR_ITEMS = 12;
+
+interface AlgorithmExplorerProps {
+  people: Array<{ user_id: string; name: string }>;
+  names: Map<string, string>;
+  algorithm: AlgorithmId;
+  source: string;
+  target: string | null;
+  step: AlgorithmStep | null;
+  onAlgorithmChange: (algorithm: AlgorithmId) => void;
+  onSourceChange: (userId: string) => void;
+  onTargetChange: (userId: string | null) => void;
+  // Playback controls, rendered between the pickers and the inspector
+  children?: ReactNode;
+}
+
+const legend = [
+  { label: 'visited', style: { backgroundColor: graphColors.highlight } },
+  { label: 'frontier', style: { border: `2px dashed ${graphColors.frontier}` } },
+  { label: 'current', style: { border: '2px solid #FFF' } },
+  { label: 'path', style: { border: `2px solid ${graphColors.path}` } },
+];
+
+export const AlgorithmExplorer = ({
+  people,
+  names,
+  algorithm,
+  source,
+  target,
+  step,
+  onAlgorithmChange,
+  onSourceChange,
+  onTargetChange,
+  children,
+}: AlgorithmExplorerProps) => {
+  const info = algorithms[algorithm];
+  const nameOf = (id: string) => names.get(id) || id;
+
+  return (
+    <div className="glass-card border border-primary/20 rounded-lg p-4 space-y-4">
+      <div className="space-y-3">
+        <div className="space-y-1">
+          <span className="text-xs text-muted-foreground">algorithm</span>
+          <Select value={algorithm} onValueChange={value => onAlgorithmChange(value as AlgorithmId)}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(algorithms).map(option => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{info.description}</p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <span className="text-xs text-muted-foreground">from</span>
+            <Select value={source} onValueChange={onSourceChange}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {people.map(person => (
+                  <SelectItem key={person.user_id} value={person.user_id}>
+                    {person.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <span className="text-xs text-muted-foreground">to {info.needsTarget ? '' : '(optional)'}</span>
+            <Select
+              value={target ?? NO_TARGET}
+              onValueChange={value => onTargetChange(value === NO_TARGET ? null : value)}
+              disabled={algorithm === 'random-walk'}
+            >
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_TARGET}>nobody</SelectItem>
+                {people
+                  .filter(person => person.user_id !== source)
+                  .map(person => (
+                    <SelectItem key={person.user_id} value={person.user_id}>
+                      {person.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      {children}
+
+      {step && (
+        <div className="space-y-3">
+          <p className="text-sm font-mono">{step.message}</p>
+          <div className="flex gap-2">
+            <Badge variant="secondary">{step.visited.length} visited</Badge>
+            <Badge variant="secondary">{step.frontier.length} in frontier</Badge>
+          </div>
+
+          {step.path && (
+            <p className="text-sm" style={{ color: graphColors.path }}>
+              {step.path.map(nameOf).join(' → ')}
+            </p>
+          )}
+
+          {step.containers.map(container => (
+            <div key={container.label} className="space-y-1">
+              <h4 className="text-xs font-semibold text-muted-foreground">{container.label}</h4>
+              {container.items.length === 0 ? (
+                <p className="text-xs text-muted-foreground">empty</p>
+              ) : (
+                <ol className="font-mono text-xs space-y-0.5">
+                  {container.items.slice(0, MAX_INSPECTOR_ITEMS).map((item, index) => (
+                    <li key={item.id} className={`flex justify-between gap-2 ${index === 0 ? 'text-primary' : 'text-foreground/80'}`}>
+                      <span className="truncate">{nameOf(item.id)}</span>
+                      {item.detail && <span className="text-muted-foreground">{item.detail}</span>}
+                    </li>
+                  ))}
+                  {container.items.length > MAX_INSPECTOR_ITEMS && (
+                    <li className="text-muted-foreground">+{container.items.length - MAX_INSPECTOR_ITEMS} more</li>
+                  )}
+                </ol>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        {legend.map(entry => (
+          <div key={entry.label} className="flex items-center gap-1.5">
+            <div className="w-3 h-3 rounded-full" style={entry.style} />
+            <span>{entry.label}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import { useEffect, useRef, useState } from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Camera, Trash2, ZoomIn } from 'lucide-react';
+import { toast } from 'sonner';
+import { cropToSquareBlob, drawSquareCrop, loadImageFile, type SquareCrop } from '@/lib/image';
+
+const PREVIEW_SIZE = 192;
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+interface AvatarUploaderProps {
+  name: string;
+  avatarUrl: string | null;
+  onCropped: (blob: Blob) => Promise<void>;
+  onRemove: () => Promise<void>;
+  disabled?: boolean;
+}
+
+export const AvatarUploader = ({
+  name,
+  avatarUrl,
+  onCropped,
+  onRemove,
+  disabled,
+}: AvatarUploaderProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number; crop: SquareCrop } | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [crop, setCrop] = useState<SquareCrop>({ zoom: 1, offsetX: 0, offsetY: 0 });
+  const [saving, setSaving] = useState(false);
+
+  const initials = name
+    .split(' ')
+    .map(n => n[0])
+    .join('')
+    .toUpperCase()
+    .slice(0, 2);
+
+  // Redraw the preview whenever the crop changes
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!image || !context) return;
+    drawSquareCrop(context, image, crop, PREVIEW_SIZE);
+  }, [image, crop]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast.error('Please choose an image file');
+      return;
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      toast.error('Image must be smaller than 10MB');
+      return;
+    }
+
+    try {
+      setImage(await loadImageFile(file));
+      setCrop({ zoom: 1, offsetX: 0, offsetY: 0 });
+    } catch {
+      toast.error('Could not read that image');
+    }
+  };
+
+  // Dragging the preview moves the crop window across the photo
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !image) return;
+
+    const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+    const dx = (e.clientX - drag.x) / PREVIEW_SIZE;
+    const dy = (e.clientY - drag.y) / PREVIEW_SIZE;
+
+    setCrop({
+      ...drag.crop,
+      offsetX: clamp(drag.crop.offsetX - dx * 2),
+      offsetY: clamp(drag.crop.offsetY - dy * 2),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleSave = async () => {
+    if (!image) return;
+
+    setSaving(true);
+    try {
+      const blob = await cropToSquareBlob(image, crop);
+      await onCropped(blob);
+      setImage(null);
+    } catch {
+      toast.error('Could not process that image');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setSaving(true);
+    await onRemove();
+    setSaving(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+
+      {image ? (
+        <div className="flex flex-col items-center gap-4 animate-fade-in">
+          <canvas
+            ref={canvasRef}
+            width={PREVIEW_SIZE}
+            height={PREVIEW_SIZE}
+            className="rounded-full ring-2 ring-primary/40 cursor-grab active:cursor-grabbing touch-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+          <div className="flex items-center gap-3 w-full max-w-xs">
+            <ZoomIn className="w-4 h-4 text-muted-foreground" />
+            <Slider
+              min={1}
+              max={3}
+              step={0.05}
+              value={[crop.zoom]}
+              onValueChange={([zoom]) => setCrop(prev => ({ ...prev, zoom }))}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">drag to reposition</p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setImage(null)} disabled={saving}>
+              cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || disabled}
+              className="bg-gradient-to-r from-primary to-accent hover:opacity-90 interactive-scale"
+            >
+              {saving ? 'uploading...' : 'save photo'}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center gap-4">
+          <Avatar className="w-20 h-20 ring-2 ring-primary/20">
+            {avatarUrl && <AvatarImage src={avatarUrl} alt={name} />}
+            <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-primary-foreground text-xl font-bold">
+              {initials}
+            </AvatarFallback>
+          </Avatar>
+          <div className="flex flex-col gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => inputRef.current?.click()}
+              disabled={saving || disabled}
+              className="interactive-scale"
+            >
+              <Camera className="w-4 h-4 mr-2" />
+              {avatarUrl ? 'change photo' : 'upload photo'}
+            </Button>
+            {avatarUrl && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={handleRemove}
+                disabled={saving || disabled}
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                remove
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import { Fragment } from 'react';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+
+export interface ConnectionChain {
+  ids: string[];
+  names: string[];
+}
+
+interface ConnectionPathProps {
+  currentUserId: string;
+  paths: ConnectionChain[];
+}
+
+export const ConnectionPath = ({ currentUserId, paths }: ConnectionPathProps) => {
+  if (paths.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        no connection found within 6 hops 🌌
+      </p>
+    );
+  }
+
+  const hops = paths[0].ids.length - 1;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        {hops} hop{hops !== 1 ? 's' : ''} away
+        {paths.length > 1 && ` · ${paths.length} shortest routes`}
+      </p>
+      {paths.map(path => (
+        <Breadcrumb key={path.ids.join('>')}>
+          <BreadcrumbList>
+            {path.ids.map((id, index) => (
+              <Fragment key={id}>
+                {index > 0 && <BreadcrumbSeparator />}
+                <BreadcrumbItem>
+                  {index === path.ids.length - 1 ? (
+                    <BreadcrumbPage className="font-semibold">{path.names[index]}</BreadcrumbPage>
+                  ) : (
+                    <span className={id === currentUserId ? 'text-primary font-medium' : ''}>
+                      {id === currentUserId ? 'you' : path.names[index]}
+                    </span>
+                  )}
+                </BreadcrumbItem>
+              </Fragment>
+            ))}
+          </BreadcrumbList>
+        </Breadcrumb>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { defaultFilter } from 'cmdk';
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+
+interface GraphSearchProps {
+  people: Array<{ id: string; name: string; type: string }>;
+  // Called for the active match as the query changes or the arrow keys move between matches
+  onFocusPerson: (id: string) => void;
+  onClear: () => void;
+}
+
+// Matches against names only; item values are ids, which shouldn't count as hits
+const filterByName = (_value: string, search: string, keywords?: string[]) =>
+  defaultFilter(keywords?.join(' ') ?? '', search);
+
+export const GraphSearch = ({ people, onFocusPerson, onClear }: GraphSearchProps) => {
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState('');
+  const [open, setOpen] = useState(false);
+
+  const changeActive = (id: string) => {
+    setActive(id);
+    if (id) onFocusPerson(id);
+  };
+
+  const changeQuery = (value: string) => {
+    setQuery(value);
+    setOpen(value.length > 0);
+    if (!value) onClear();
+  };
+
+  return (
+    <Command
+      filter={filterByName}
+      value={active}
+      onValueChange={changeActive}
+      className="w-64 h-auto border shadow-md"
+      onKeyDown={e => {
+        if (e.key === 'Escape') {
+          changeQuery('');
+        }
+      }}
+    >
+      <CommandInput
+        value={query}
+        onValueChange={changeQuery}
+        onFocus={() => setOpen(query.length > 0)}
+        placeholder="find someone…"
+        className="h-9"
+      />
+      {open && (
+        <CommandList className="max-h-60">
+          <CommandEmpty>nobody by that name</CommandEmpty>
+          {people.map(person => (
+            <CommandItem
+              key={person.id}
+              value={person.id}
+              keywords={[person.name]}
+              onSelect={id => {
+                onFocusPerson(id);
+                setOpen(false);
+              }}
+            >
+              <span className="truncate">{person.name}</span>
+              <span className="ml-auto text-xs text-muted-foreground">{person.type}</span>
+            </CommandItem>
+          ))}
+        </CommandList>
+      )}
+    </Command>
+  );
+};
@@ -1,58 +1,384 @@
-import { useEffect, useRef, useState } from 'react';
-import * as d3 from 'd3-force';
-
-interface Node {
-  id: string;
-  name: string;
-  x?: number;
-  y?: number;
-  vx?: number;
-  vy?: number;
-  color: string;
-  size: number;
-  type: 'current' | 'friend' | 'mutual' | 'suggestion';
-}
-
-interface Link {
-  source: string | Node;
-  target: string | Node;
-}
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Download, Loader2, Maximize2, Minus, Plus, UserPlus, UserRound, X, ZoomIn, ZoomOut } from 'lucide-react';
+import { toast } from 'sonner';
+import { GraphSearch } from '@/components/GraphSearch';
+import { drawCanvasGraph, drawCanvasHulls, drawCanvasLabels, drawCanvasPulse } from '@/lib/canvasGraphRenderer';
+import { traversalHighlights, type TraversalEvent } from '@/lib/traversal';
+import { algorithmHighlights, type AlgorithmStep } from '@/lib/graphAlgorithms';
+import { createForceLayout, type ForceLayout } from '@/lib/forceLayout';
+import { computeLayout, graphLayouts, type GraphLayoutId } from '@/lib/graphLayouts';
+import {
+  renderViewToPNG,
+  renderViewToSVG,
+  toEdgeListCSV,
+  toGEXF,
+  toGraphJSON,
+  toGraphML,
+} from '@/lib/graphExport';
+import { downloadBlob } from '@/lib/download';
+import { buildAdjacency } from '@/lib/suggestionScorers';
+import {
+  communityColor,
+  communityGroups,
+  detectCommunities,
+  matchCommunityLabels,
+  type CommunityLabel,
+} from '@/lib/communities';
+import { defaultGraphFilters, loadGraphFilters, saveGraphFilters, type GraphFilters } from '@/lib/graphFilters';
+import { createWebGLGraphRenderer, isWebGLAvailable, type WebGLGraphRenderer } from '@/lib/webglGraphRenderer';
+import {
+  graphColors,
+  linkEndpoint,
+  type GraphCommunity,
+  type GraphFocus,
+  type GraphLink,
+  type GraphNode,
+  type GraphScene,
+} from '@/lib/graphScene';
+import {
+  centerOn,
+  easeInOut,
+  fitBounds,
+  identityCamera,
+  interpolateCamera,
+  screenToGraph,
+  zoomAround,
+  type Camera,
+} from '@/lib/graphCamera';
 
 interface GraphVisualizationProps {
   currentUserId: string;
-  friends: Array<{ user_id: string; name: string }>;
-  allUsers: Array<{ user_id: string; name: string }>;
+  friends: Array<{ user_id: string; name: string; avatar_url?: string | null }>;
+  allUsers: Array<{ user_id: string; name: string; avatar_url?: string | null }>;
   friendships: Array<{ user_id: string; friend_id: string }>;
-  isAnimating: boolean;
+  // Precomputed traversal and how many of its events have played so far
+  traversalEvents?: TraversalEvent[];
+  traversalPosition?: number;
+  // Explorer snapshot to show instead of the traversal
+  algorithmStep?: AlgorithmStep | null;
+  currentUserAvatarUrl?: string | null;
+  // My own name for the data exports; the graph itself labels me "You"
+  currentUserName?: string;
+  // Chains of user ids (e.g. me → mutual friend → suggestion) to spotlight in the graph
+  highlightPaths?: string[][];
+  // Ids of people with a pending outgoing request, so the add action can show as sent
+  requestedUserIds?: string[];
+  onViewProfile?: (userId: string) => void;
+  onAddFriend?: (userId: string) => void;
+  // Friendships loaded past the two-hop network by expanding people, and who is expanded
+  expandedFriendships?: Array<{ user_id: string; friend_id: string }>;
+  expandedIds?: string[];
+  // Person whose neighbourhood is being fetched
+  expandingId?: string | null;
+  onExpand?: (userId: string) => void;
+  onCollapse?: (userId: string) => void;
+  // Names the user has given communities, and saving one (an empty name removes it)
+  communityLabels?: CommunityLabel[];
+  onNameCommunity?: (memberIds: string[], name: string, labelId: string | null) => void;
 }
 
+interface HoverState {
+  id: string;
+  // Pointer position in CSS pixels relative to the graph container
+  left: number;
+  top: number;
+}
+
+// Above this many nodes the graph is drawn with WebGL (labels culled) instead of Canvas2D
+const WEBGL_NODE_THRESHOLD = 300;
+// How long nodes take to glide to a new layout, in ms
+const LAYOUT_TRANSITION_MS = 700;
+// How long a node found by search pulses, in ms
+const PULSE_MS = 1800;
+const PULSE_CYCLE_MS = 900;
+
+const legendItems: Array<{ type: GraphNode['type']; label: string; color: string }> = [
+  { type: 'current', label: 'You', color: graphColors.current },
+  { type: 'friend', label: 'Friends', color: graphColors.friend },
+  { type: 'mutual', label: 'Mutual Friends', color: graphColors.mutual },
+  { type: 'suggestion', label: 'Suggested', color: graphColors.suggestion },
+  { type: 'extended', label: 'Further Out', color: graphColors.extended },
+];
+
+// Most communities listed for naming under the legend, largest first
+const MAX_LISTED_COMMUNITIES = 12;
+
+const nodeTypeLabels: Record<GraphNode['type'], string> = {
+  current: 'you',
+  friend: 'friend',
+  mutual: 'mutual friend',
+  suggestion: 'suggested',
+  extended: 'further out',
+};
+
+
 export const GraphVisualization = ({
   currentUserId,
   friends,
   allUsers,
   friendships,
-  isAnimating,
+  traversalEvents,
+  traversalPosition = 0,
+  algorithmStep,
+  currentUserAvatarUrl,
+  currentUserName,
+  highlightPaths,
+  requestedUserIds,
+  onViewProfile,
+  onAddFriend,
+  expandedFriendships,
+  expandedIds,
+  expandingId,
+  onExpand,
+  onCollapse,
+  communityLabels,
+  onNameCommunity,
 }: GraphVisualizationProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [nodes, setNodes] = useState<Node[]>([]);
-  const [links, setLinks] = useState<Link[]>([]);
-  const [highlightNodes, setHighlightNodes] = useState(new Set<string>());
-  const [highlightLinks, setHighlightLinks] = useState(new Set<string>());
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [nodes, setNodes] = useState<GraphNode[]>([]);
+  const [links, setLinks] = useState<GraphLink[]>([]);
+  const nodesRef = useRef<GraphNode[]>([]);
+  const layoutRef = useRef<ForceLayout | null>(null);
+  const [layout, setLayout] = useState<GraphLayoutId>('force');
+  const [filters, setFilters] = useState<GraphFilters>(defaultGraphFilters);
+  // Highest mutual count among suggestions, for the slider's range
+  const [maxSuggestionMutual, setMaxSuggestionMutual] = useState(0);
+  const [colorBy, setColorBy] = useState<'type' | 'community'>('type');
+  const renderWithWebGL = nodes.length > WEBGL_NODE_THRESHOLD && isWebGLAvailable();
+  // Everything the traversal (or the explorer) has reached by the current playback position
+  const { nodes: highlightNodes, links: highlightLinks, frontier: frontierNodes, active: activeNodeId } = useMemo(
+    () =>
+      algorithmStep
+        ? algorithmHighlights(algorithmStep)
+        : { ...traversalHighlights(traversalEvents || [], traversalPosition), frontier: new Set<string>(), active: null },
+    [algorithmStep, traversalEvents, traversalPosition]
+  );
   const animationRef = useRef<number>();
+  const avatarImagesRef = useRef(new Map<string, HTMLImageElement>());
+  const renderRef = useRef<() => void>();
+  const cameraRef = useRef<Camera>(identityCamera);
+  // The node list the camera was last auto-fitted to, so re-runs of the simulation don't yank the view
+  const fittedNodesRef = useRef<GraphNode[]>();
+  const glCanvasRef = useRef<HTMLCanvasElement>(null);
+  // Community hulls in WebGL mode, stacked under the WebGL layer so they stay behind the nodes
+  const hullCanvasRef = useRef<HTMLCanvasElement>(null);
+  const highlightsRef = useRef({
+    highlightNodes: new Set<string>(),
+    highlightLinks: new Set<string>(),
+    pathNodes: new Set<string>(),
+    pathLinks: new Set<string>(),
+    frontierNodes: new Set<string>(),
+    activeNodeId: null as string | null,
+  });
+  const communitiesRef = useRef<GraphCommunity[]>([]);
+  const [hovered, setHovered] = useState<HoverState | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Node found by search and when it started pulsing
+  const pulseRef = useRef<{ id: string; start: number } | null>(null);
+  // Selection and hover are read by the render loop through refs so changing them
+  // redraws without restarting the simulation
+  const focusRef = useRef<GraphFocus>({
+    hoveredId: null,
+    selectedId: null,
+    neighbors: new Set(),
+  });
+
+  // Loaded avatar for a node, kicking off the download the first time it's needed
+  const getAvatarImage = (url: string) => {
+    const cached = avatarImagesRef.current.get(url);
+    if (cached) return cached.complete && cached.naturalWidth > 0 ? cached : null;
+
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => renderRef.current?.();
+    image.src = url;
+    avatarImagesRef.current.set(url, image);
+    return null;
+  };
+
+  // Ease the camera to `target`, redrawing every frame
+  const animateCamera = useCallback((target: Camera, duration = 450) => {
+    if (animationRef.current) cancelAnimationFrame(animationRef.current);
+
+    const from = cameraRef.current;
+    const start = performance.now();
+
+    const step = (now: number) => {
+      const t = Math.min(1, (now - start) / duration);
+      cameraRef.current = interpolateCamera(from, target, t);
+      renderRef.current?.();
+      animationRef.current = t < 1 ? requestAnimationFrame(step) : undefined;
+    };
+
+    animationRef.current = requestAnimationFrame(step);
+  }, []);
+
+  const fitToView = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    animateCamera(fitBounds(nodes, canvas.width, canvas.height));
+  };
+
+  // What's on screen right now, for the image exports
+  const currentScene = (): GraphScene => ({
+    nodes,
+    links,
+    camera: cameraRef.current,
+    width: canvasRef.current?.width ?? 1200,
+    height: canvasRef.current?.height ?? 600,
+    ...highlightsRef.current,
+    communities: communitiesRef.current,
+    focus: focusRef.current,
+  });
+
+  const exportImage = async (format: 'png' | 'svg') => {
+    const filename = `network-${new Date().toISOString().slice(0, 10)}.${format}`;
+    try {
+      if (format === 'png') {
+        const scale = Math.max(2, window.devicePixelRatio);
+        downloadBlob(await renderViewToPNG(currentScene(), scale, getAvatarImage), filename);
+      } else {
+        downloadBlob(new Blob([renderViewToSVG(currentScene())], { type: 'image/svg+xml' }), filename);
+      }
+    } catch (error) {
+      console.error('Error exporting graph image:', error);
+      toast.error('Failed to export the graph');
+    }
+  };
+
+  const exportData = (format: 'graphml' | 'gexf' | 'csv' | 'json') => {
+    const serializers = {
+      graphml: { serialize: toGraphML, type: 'application/graphml+xml' },
+      gexf: { serialize: toGEXF, type: 'application/gexf+xml' },
+      csv: { serialize: toEdgeListCSV, type: 'text/csv' },
+      json: { serialize: toGraphJSON, type: 'application/json' },
+    };
+    const { serialize, type } = serializers[format];
+    const filename = `network-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    // Everyone loaded, whatever the filters hide, with every friendship between them
+    const exportNodes = nodesRef.current.map(node =>
+      node.id === currentUserId && currentUserName ? { ...node, name: currentUserName } : node
+    );
+    const nodesById = new Map(exportNodes.map(n => [n.id, n]));
+    const seenLinks = new Set<string>();
+    const exportLinks: GraphLink[] = [];
+    [...friendships, ...(expandedFriendships || [])].forEach(fs => {
+      const source = nodesById.get(fs.user_id);
+      const target = nodesById.get(fs.friend_id);
+      const key = fs.user_id < fs.friend_id ? `${fs.user_id}-${fs.friend_id}` : `${fs.friend_id}-${fs.user_id}`;
+      if (source && target && !seenLinks.has(key)) {
+        seenLinks.add(key);
+        exportLinks.push({ source, target });
+      }
+    });
+
+    downloadBlob(new Blob([serialize(exportNodes, exportLinks)], { type }), filename);
+  };
+
+  // Jump to a search match: select it (dimming all but its neighbours), centre it and pulse it
+  const focusPerson = (id: string) => {
+    const canvas = canvasRef.current;
+    const node = nodes.find(n => n.id === id);
+    if (!canvas || !node || node.x === undefined) return;
+
+    setSelectedId(id);
+    pulseRef.current = { id, start: performance.now() };
+    animateCamera(centerOn(node.x, node.y, canvas.width, canvas.height, Math.max(cameraRef.current.k, 1.5)));
+  };
+
+  const zoomBy = (factor: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    animateCamera(zoomAround(cameraRef.current, canvas.width / 2, canvas.height / 2, factor), 200);
+  };
+
+  useEffect(() => () => {
+    if (animationRef.current) cancelAnimationFrame(animationRef.current);
+  }, []);
+
+  useEffect(() => {
+    if (currentUserId) setFilters(loadGraphFilters(currentUserId));
+  }, [currentUserId]);
+
+  const updateFilters = (next: GraphFilters) => {
+    setFilters(next);
+    if (currentUserId) saveGraphFilters(currentUserId, next);
+  };
+
+  const toggleType = (type: GraphNode['type']) => {
+    const hiddenTypes = filters.hiddenTypes.includes(type)
+      ? filters.hiddenTypes.filter(t => t !== type)
+      : [...filters.hiddenTypes, type];
+    updateFilters({ ...filters, hiddenTypes });
+  };
+
+  // Nodes and edges along the requested paths (plus any path the explorer found), keyed the same way as highlightLinks
+  const { pathNodes, pathLinks } = useMemo(() => {
+    const pathNodes = new Set<string>();
+    const pathLinks = new Set<string>();
+    const paths = algorithmStep?.path ? [...(highlightPaths || []), algorithmStep.path] : highlightPaths || [];
+    paths.forEach(path => {
+      path.forEach((id, index) => {
+        pathNodes.add(id);
+        if (index > 0) {
+          pathLinks.add(`${path[index - 1]}-${id}`);
+          pathLinks.add(`${id}-${path[index - 1]}`);
+        }
+      });
+    });
+    return { pathNodes, pathLinks };
+  }, [highlightPaths, algorithmStep]);
+
+  // Communities among the people around me. I'm left out, since I'm connected to every
+  // friend and would pull them all into one community.
+  const communities = useMemo(() => {
+    const adjacency = buildAdjacency(
+      [...friendships, ...(expandedFriendships || [])].filter(
+        fs => fs.user_id !== currentUserId && fs.friend_id !== currentUserId
+      )
+    );
+    return detectCommunities(Array.from(adjacency.keys()), adjacency);
+  }, [currentUserId, friendships, expandedFriendships]);
+
+  const groups = useMemo(() => communityGroups(communities), [communities]);
+  const labelsByCommunity = useMemo(
+    () => matchCommunityLabels(groups, communityLabels || []),
+    [groups, communityLabels]
+  );
 
   // Build graph data
   useEffect(() => {
-    const nodeList: Node[] = [];
-    const linkList: Link[] = [];
-    const friendIds = friends.map(f => f.user_id);
+    const nodeList: GraphNode[] = [];
+    const linkList: GraphLink[] = [];
+    const friendIds = new Set(friends.map(f => f.user_id));
+    const usersById = new Map(allUsers.map(u => [u.user_id, u]));
 
     // Add current user
     nodeList.push({
       id: currentUserId,
       name: 'You',
-      color: '#9b87f5',
+      color: graphColors.current,
       size: 18,
       type: 'current',
+      avatarUrl: currentUserAvatarUrl,
+      mutualCount: 0,
+      connections: 0,
     });
 
     // Build node-to-connections map to identify mutual friends
@@ -73,7 +399,7 @@ export const GraphVisualization = ({
     friendIds.forEach(friendId => {
       const theirFriends = connectionMap.get(friendId) || new Set();
       theirFriends.forEach(fofId => {
-        if (fofId !== currentUserId && !friendIds.includes(fofId)) {
+        if (fofId !== currentUserId && !friendIds.has(fofId)) {
           friendsOfFriends.add(fofId);
         }
       });
@@ -97,98 +423,231 @@ export const GraphVisualization = ({
       nodeList.push({
         id: friend.user_id,
         name: friend.name,
-        color: isMutual ? '#F97316' : '#7E69AB',
+        color: isMutual ? graphColors.mutual : graphColors.friend,
         size: isMutual ? 14 : 12,
         type: isMutual ? 'mutual' : 'friend',
+        avatarUrl: friend.avatar_url,
+        mutualCount: 0,
+        connections: 0,
       });
     });
 
     // Add suggestions to graph
     friendsOfFriends.forEach(userId => {
-      const user = allUsers.find(u => u.user_id === userId);
+      const user = usersById.get(userId);
       if (user) {
         nodeList.push({
           id: userId,
           name: user.name,
-          color: '#D6BCFA',
+          color: graphColors.suggestion,
           size: 10,
           type: 'suggestion',
+          avatarUrl: user.avatar_url,
+          mutualCount: 0,
+          connections: 0,
         });
       }
     });
 
-    // Add ALL edges where BOTH nodes exist in graph
-    friendships.forEach(fs => {
-      const sourceInGraph = nodeList.find(n => n.id === fs.user_id);
-      const targetInGraph = nodeList.find(n => n.id === fs.friend_id);
-      if (sourceInGraph && targetInGraph) {
-        linkList.push({
-          source: fs.user_id,
-          target: fs.friend_id,
+    // People loaded by expanding someone; they start out on top of whoever was expanded
+    // so they spread out from there
+    const nodeIds = new Set(nodeList.map(n => n.id));
+    const extendedParents = new Map<string, string>();
+    (expandedFriendships || []).forEach(fs => {
+      [fs.user_id, fs.friend_id].forEach(id => {
+        if (!connectionMap.has(id)) connectionMap.set(id, new Set());
+      });
+      connectionMap.get(fs.user_id)!.add(fs.friend_id);
+      connectionMap.get(fs.friend_id)!.add(fs.user_id);
+
+      const user = usersById.get(fs.friend_id);
+      if (nodeIds.has(fs.friend_id) || !user) return;
+      nodeIds.add(fs.friend_id);
+      extendedParents.set(fs.friend_id, fs.user_id);
+      nodeList.push({
+        id: fs.friend_id,
+        name: user.name,
+        color: graphColors.extended,
+        size: 9,
+        type: 'extended',
+        avatarUrl: user.avatar_url,
+        mutualCount: 0,
+        connections: 0,
+      });
+    });
+
+    // Per-node counts for the hover card
+    nodeList.forEach(node => {
+      const theirConnections = connectionMap.get(node.id) || new Set<string>();
+      node.connections = theirConnections.size;
+      if (node.type !== 'current') {
+        theirConnections.forEach(id => {
+          if (friendIds.has(id)) node.mutualCount += 1;
         });
       }
     });
 
-    console.log('Graph nodes:', nodeList.length, 'Graph edges:', linkList.length);
-    console.log('Mutual friends (orange):', Array.from(mutualFriendIds));
-    console.log('Suggestions:', Array.from(friendsOfFriends));
-    console.log('Total links:', linkList.length);
+    // People already on screen keep their place when the data reloads
+    const previousNodes = new Map(nodesRef.current.map(n => [n.id, n]));
+    nodeList.forEach(node => {
+      const previous = previousNodes.get(node.id) ?? previousNodes.get(extendedParents.get(node.id));
+      if (previous?.x !== undefined) {
+        const isNew = previous.id !== node.id;
+        node.x = previous.x + (isNew ? Math.random() * 10 - 5 : 0);
+        node.y = previous.y + (isNew ? Math.random() * 10 - 5 : 0);
+      }
+    });
 
-    setNodes(nodeList);
+    // Filtered-out people and their edges are left out of the graph; they keep their node
+    // objects in nodesRef so they come back where they were
+    const hiddenTypes = new Set(filters.hiddenTypes);
+    const visibleNodes = nodeList.filter(
+      node =>
+        !hiddenTypes.has(node.type) && !(node.type === 'suggestion' && node.mutualCount < filters.minMutual)
+    );
+
+    // Add ALL edges where BOTH nodes are shown, once each even if an expansion loaded it again
+    const nodesById = new Map(visibleNodes.map(n => [n.id, n]));
+    const seenLinks = new Set<string>();
+    [...friendships, ...(expandedFriendships || [])].forEach(fs => {
+      const source = nodesById.get(fs.user_id);
+      const target = nodesById.get(fs.friend_id);
+      const key = fs.user_id < fs.friend_id ? `${fs.user_id}-${fs.friend_id}` : `${fs.friend_id}-${fs.user_id}`;
+      if (source && target && !seenLinks.has(key)) {
+        seenLinks.add(key);
+        linkList.push({ source, target });
+      }
+    });
+
+    nodesRef.current = nodeList;
+    setMaxSuggestionMutual(
+      nodeList.reduce((max, node) => (node.type === 'suggestion' ? Math.max(max, node.mutualCount) : max), 0)
+    );
+    setNodes(visibleNodes);
     setLinks(linkList);
-  }, [currentUserId, friends, allUsers, friendships]);
+  }, [currentUserId, currentUserAvatarUrl, friends, allUsers, friendships, expandedFriendships, filters]);
 
-  // Animate BFS traversal
+  // Drop a selection whose node left the graph
   useEffect(() => {
-    if (!isAnimating) {
-      setHighlightNodes(new Set());
-      setHighlightLinks(new Set());
-      return;
+    if (selectedId && !nodes.some(n => n.id === selectedId)) {
+      setSelectedId(null);
     }
+  }, [nodes, selectedId]);
 
-    const animate = async () => {
-      const highlighted = new Set<string>();
-      const highlightedLinks = new Set<string>();
-
-      // Highlight current user
-      highlighted.add(currentUserId);
-      setHighlightNodes(new Set(highlighted));
-      await new Promise(resolve => setTimeout(resolve, 800));
-
-      // For each friend
-      for (const friend of friends) {
-        highlightedLinks.add(`${currentUserId}-${friend.user_id}`);
-        highlightedLinks.add(`${friend.user_id}-${currentUserId}`);
-        highlighted.add(friend.user_id);
-        setHighlightNodes(new Set(highlighted));
-        setHighlightLinks(new Set(highlightedLinks));
-        await new Promise(resolve => setTimeout(resolve, 600));
-
-        const friendConnections = friendships.filter(
-          fs => fs.user_id === friend.user_id || fs.friend_id === friend.user_id
-        );
-
-        for (const conn of friendConnections) {
-          const potentialFriendId = conn.user_id === friend.user_id ? conn.friend_id : conn.user_id;
-          
-          if (potentialFriendId !== currentUserId && !friends.some(f => f.user_id === potentialFriendId)) {
-            highlightedLinks.add(`${friend.user_id}-${potentialFriendId}`);
-            highlightedLinks.add(`${potentialFriendId}-${friend.user_id}`);
-            highlighted.add(potentialFriendId);
-            setHighlightNodes(new Set(highlighted));
-            setHighlightLinks(new Set(highlightedLinks));
-            await new Promise(resolve => setTimeout(resolve, 400));
-          }
-        }
+  // Keep the render loop's view of hover/selection current and redraw
+  useEffect(() => {
+    const neighbors = new Set<string>();
+    if (selectedId) {
+      neighbors.add(selectedId);
+      links.forEach(link => {
+        const sourceId = linkEndpoint(link.source);
+        const targetId = linkEndpoint(link.target);
+        if (sourceId === selectedId) neighbors.add(targetId);
+        if (targetId === selectedId) neighbors.add(sourceId);
+      });
+    }
+    focusRef.current = { hoveredId: hovered?.id ?? null, selectedId, neighbors };
+    renderRef.current?.();
+  }, [selectedId, hovered, links]);
+
+  // Latest highlight state for the render loop, so highlight changes redraw in place
+  useEffect(() => {
+    highlightsRef.current = { highlightNodes, highlightLinks, pathNodes, pathLinks, frontierNodes, activeNodeId };
+    renderRef.current?.();
+  }, [highlightNodes, highlightLinks, pathNodes, pathLinks, frontierNodes, activeNodeId]);
 
-        await new Promise(resolve => setTimeout(resolve, 200));
+  // Recolor nodes by community (people in no community of their own go grey) or by type, and
+  // shade each community behind its members
+  useEffect(() => {
+    const byCommunity = colorBy === 'community';
+    nodes.forEach(node => {
+      const index = communities.get(node.id);
+      if (!byCommunity || node.type === 'current') {
+        node.color = graphColors[node.type];
+      } else {
+        node.color = groups.has(index) ? communityColor(index) : graphColors.extended;
       }
-    };
+    });
+    communitiesRef.current = byCommunity
+      ? Array.from(groups.entries()).map(([index, members]) => ({
+          nodeIds: new Set(members),
+          color: communityColor(index),
+          name: labelsByCommunity.get(index)?.name ?? null,
+        }))
+      : [];
+    renderRef.current?.();
+  }, [nodes, colorBy, communities, groups, labelsByCommunity]);
+
+  // Force layout, running in a worker for as long as the graph itself is unchanged. The other
+  // layouts are computed up front and the nodes glide from wherever they are to their new spots.
+  useEffect(() => {
+    if (nodes.length === 0) return;
 
-    animate();
-  }, [isAnimating, currentUserId, friends, friendships]);
+    const canvas = canvasRef.current;
+    const width = canvas?.width ?? 1200;
+    const height = canvas?.height ?? 600;
+
+    if (layout !== 'force') {
+      const targets = computeLayout(layout, { nodes, links, rootId: currentUserId, width, height });
+      const starts = nodes.map(node => ({ x: node.x ?? width / 2, y: node.y ?? height / 2 }));
+      const start = performance.now();
+      let frame: number;
 
-  // D3 force simulation and canvas rendering
+      const step = (now: number) => {
+        const t = Math.min(1, (now - start) / LAYOUT_TRANSITION_MS);
+        const eased = easeInOut(t);
+        nodes.forEach((node, index) => {
+          const target = targets.get(node.id) ?? starts[index];
+          node.x = starts[index].x + (target.x - starts[index].x) * eased;
+          node.y = starts[index].y + (target.y - starts[index].y) * eased;
+        });
+        renderRef.current?.();
+
+        if (t < 1) {
+          frame = requestAnimationFrame(step);
+        } else {
+          // Let the force layout re-frame the graph if we switch back to it
+          fittedNodesRef.current = undefined;
+          animateCamera(fitBounds(nodes, width, height));
+        }
+      };
+
+      frame = requestAnimationFrame(step);
+      return () => cancelAnimationFrame(frame);
+    }
+
+    const indexById = new Map(nodes.map((node, index) => [node.id, index]));
+    const forceLayout = createForceLayout({
+      nodes,
+      links: links.map(link => [
+        indexById.get(linkEndpoint(link.source)),
+        indexById.get(linkEndpoint(link.target)),
+      ]),
+      width,
+      height,
+      onTick: positions => {
+        nodes.forEach((node, index) => {
+          node.x = positions[index * 2];
+          node.y = positions[index * 2 + 1];
+        });
+        renderRef.current?.();
+      },
+      // Frame the whole network the first time it settles
+      onEnd: () => {
+        if (fittedNodesRef.current === nodes) return;
+        fittedNodesRef.current = nodes;
+        animateCamera(fitBounds(nodes, width, height));
+      },
+    });
+
+    layoutRef.current = forceLayout;
+    return () => {
+      forceLayout.dispose();
+      if (layoutRef.current === forceLayout) layoutRef.current = null;
+    };
+  }, [nodes, links, layout, currentUserId, animateCamera]);
+
+  // Rendering and pointer interaction. Highlights, hover and camera moves just request a frame.
   useEffect(() => {
     if (!canvasRef.current || nodes.length === 0) return;
 
@@ -198,198 +657,526 @@ export const GraphVisualization = ({
 
     const width = canvas.width;
     const height = canvas.height;
+    const indexById = new Map(nodes.map((node, index) => [node.id, index]));
 
-    // Create simulation with boundary constraints
-    const simulation = d3.forceSimulation(nodes as any)
-      .force('link', d3.forceLink(links).id((d: any) => d.id).distance(120).strength(0.5))
-      .force('charge', d3.forceManyBody().strength(-400))
-      .force('center', d3.forceCenter(width / 2, height / 2))
-      .force('collision', d3.forceCollide().radius(35))
-      .force('x', d3.forceX(width / 2).strength(0.1))
-      .force('y', d3.forceY(height / 2).strength(0.1));
+    // Falls back to Canvas2D if the WebGL context can't be created
+    const webgl: WebGLGraphRenderer | null =
+      renderWithWebGL && glCanvasRef.current ? createWebGLGraphRenderer(glCanvasRef.current) : null;
+    const hullContext = webgl ? hullCanvasRef.current?.getContext('2d') : null;
 
-    const render = () => {
-      context.clearRect(0, 0, width, height);
-      context.save();
-
-      // Constrain nodes within bounds
-      nodes.forEach((node: any) => {
-        const margin = 50;
-        node.x = Math.max(margin, Math.min(width - margin, node.x));
-        node.y = Math.max(margin, Math.min(height - margin, node.y));
-      });
+    const draw = () => {
+      const scene = {
+        nodes,
+        links,
+        camera: cameraRef.current,
+        width,
+        height,
+        ...highlightsRef.current,
+        communities: communitiesRef.current,
+        focus: focusRef.current,
+      };
 
-      // Draw links (edges) with enhanced visibility
-      links.forEach((link: any) => {
-        const linkKey1 = `${link.source.id}-${link.target.id}`;
-        const linkKey2 = `${link.target.id}-${link.source.id}`;
-        const isHighlighted = highlightLinks.has(linkKey1) || highlightLinks.has(linkKey2);
-
-        context.beginPath();
-        context.moveTo(link.source.x, link.source.y);
-        context.lineTo(link.target.x, link.target.y);
-        
-        if (isHighlighted) {
-          // Highlighted edges during animation
-          context.strokeStyle = '#F97316';
-          context.lineWidth = 5;
-          context.shadowBlur = 25;
-          context.shadowColor = '#F97316';
-        } else {
-          // Normal edges - make them clearly visible
-          context.strokeStyle = 'rgba(155, 135, 245, 0.6)';
-          context.lineWidth = 3;
-          context.shadowBlur = 8;
-          context.shadowColor = 'rgba(155, 135, 245, 0.4)';
-        }
-        
-        context.stroke();
-        context.shadowBlur = 0;
-      });
+      if (webgl) {
+        if (hullContext) drawCanvasHulls(hullContext, scene);
+        webgl.render(scene);
+        drawCanvasLabels(context, scene);
+      } else {
+        drawCanvasGraph(context, scene, getAvatarImage);
+      }
 
-      // Draw nodes with labels and type indicators
-      nodes.forEach((node: any) => {
-        const isHighlighted = highlightNodes.has(node.id);
-        
-        // Outer glow for highlighted nodes
-        if (isHighlighted) {
-          context.beginPath();
-          context.arc(node.x, node.y, node.size + 6, 0, 2 * Math.PI);
-          context.fillStyle = 'rgba(249, 115, 22, 0.3)';
-          context.fill();
-        }
-        
-        // Main node
-        context.beginPath();
-        context.arc(node.x, node.y, node.size, 0, 2 * Math.PI);
-        context.fillStyle = isHighlighted ? '#F97316' : node.color;
-        
-        if (isHighlighted) {
-          context.shadowBlur = 25;
-          context.shadowColor = '#F97316';
+      // Keep requesting frames until the search pulse has finished
+      const pulse = pulseRef.current;
+      const pulseNode = pulse && nodes[indexById.get(pulse.id)];
+      if (pulse && pulseNode) {
+        const elapsed = performance.now() - pulse.start;
+        if (elapsed < PULSE_MS) {
+          drawCanvasPulse(context, scene, pulseNode, (elapsed % PULSE_CYCLE_MS) / PULSE_CYCLE_MS);
+          render();
         } else {
-          context.shadowBlur = 5;
-          context.shadowColor = node.color;
-        }
-        
-        context.fill();
-        
-        // Node border
-        context.strokeStyle = isHighlighted ? '#FFF' : 'rgba(255, 255, 255, 0.5)';
-        context.lineWidth = isHighlighted ? 3 : 2;
-        context.stroke();
-
-        // Draw type indicator for mutual friends
-        if (node.type === 'mutual' && !isHighlighted) {
-          context.shadowBlur = 0;
-          context.fillStyle = '#F97316';
-          context.beginPath();
-          context.arc(node.x + node.size * 0.6, node.y - node.size * 0.6, 4, 0, 2 * Math.PI);
-          context.fill();
+          pulseRef.current = null;
         }
+      }
+    };
 
-        // Draw label
-        context.shadowBlur = 0;
-        context.fillStyle = isHighlighted ? '#FFF' : 'rgba(255, 255, 255, 0.95)';
-        context.font = isHighlighted ? 'bold 13px sans-serif' : '12px sans-serif';
-        context.textAlign = 'center';
-        context.textBaseline = 'top';
-        context.fillText(node.name, node.x, node.y + node.size + 8);
-        
-        // Draw type label
-        if (node.type === 'mutual') {
-          context.fillStyle = 'rgba(249, 115, 22, 0.8)';
-          context.font = '10px sans-serif';
-          context.fillText('mutual', node.x, node.y + node.size + 23);
-        } else if (node.type === 'suggestion') {
-          context.fillStyle = 'rgba(214, 188, 250, 0.8)';
-          context.font = '10px sans-serif';
-          context.fillText('suggested', node.x, node.y + node.size + 23);
-        }
+    // Coalesce ticks, camera moves and highlight changes into at most one frame each
+    let frame: number | undefined;
+    const render = () => {
+      if (frame !== undefined) return;
+      frame = requestAnimationFrame(() => {
+        frame = undefined;
+        draw();
       });
-
-      context.restore();
     };
 
-    simulation.on('tick', () => {
-      render();
-    });
-
-    // Mouse drag interaction
-    let dragNode: Node | null = null;
+    renderRef.current = render;
+    render();
 
-    const handleMouseDown = (e: MouseEvent) => {
+    // Canvas pixel under a pointer; the bitmap is CSS-scaled to fit its container
+    const toCanvasPoint = (e: { clientX: number; clientY: number }) => {
       const rect = canvas.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const y = e.clientY - rect.top;
+      return {
+        x: (e.clientX - rect.left) * (width / rect.width),
+        y: (e.clientY - rect.top) * (height / rect.height),
+      };
+    };
 
-      dragNode = nodes.find((node: any) => {
+    const findNodeAt = (px: number, py: number) => {
+      const { x, y } = screenToGraph(cameraRef.current, px, py);
+      return nodes.find(node => {
         const dx = x - node.x;
         const dy = y - node.y;
         return Math.sqrt(dx * dx + dy * dy) < node.size;
       }) || null;
+    };
+
+    // Pointer interaction: drag a node to move it, drag empty space to pan, two fingers to
+    // pinch-zoom. A press on a node that barely moves counts as a click.
+    const pointers = new Map<number, { x: number; y: number }>();
+    let mode: 'none' | 'node' | 'pan' | 'pinch' = 'none';
+    let dragNode: GraphNode | null = null;
+    let dragMoved = false;
+    let gestureStart = { x: 0, y: 0, distance: 1, camera: cameraRef.current };
+
+    // Pinning happens in the layout worker; the local position is updated too so the drag feels immediate
+    const pinDragNode = (x: number, y: number) => {
+      dragNode.x = x;
+      dragNode.y = y;
+      layoutRef.current?.pin(indexById.get(dragNode.id), x, y);
+      render();
+    };
+
+    const releaseDragNode = () => {
+      if (!dragNode) return;
+      layoutRef.current?.release(indexById.get(dragNode.id));
+      dragNode = null;
+    };
+
+    const pinchMetrics = () => {
+      const [a, b] = Array.from(pointers.values());
+      return {
+        x: (a.x + b.x) / 2,
+        y: (a.y + b.y) / 2,
+        distance: Math.max(Math.hypot(a.x - b.x, a.y - b.y), 1),
+      };
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      const point = toCanvasPoint(e);
+      pointers.set(e.pointerId, point);
+      canvas.setPointerCapture(e.pointerId);
+
+      if (animationRef.current) {
+        cancelAnimationFrame(animationRef.current);
+        animationRef.current = undefined;
+      }
+
+      setHovered(null);
+
+      if (pointers.size === 2) {
+        releaseDragNode();
+        mode = 'pinch';
+        gestureStart = { ...pinchMetrics(), camera: cameraRef.current };
+        return;
+      }
+
+      if (pointers.size > 2) return;
+
+      dragMoved = false;
+      gestureStart = { ...point, distance: 1, camera: cameraRef.current };
+      dragNode = findNodeAt(point.x, point.y);
 
       if (dragNode) {
-        simulation.alphaTarget(0.3).restart();
+        mode = 'node';
+        pinDragNode(dragNode.x, dragNode.y);
+      } else {
+        mode = 'pan';
       }
     };
 
-    const handleMouseMove = (e: MouseEvent) => {
-      if (dragNode) {
-        const rect = canvas.getBoundingClientRect();
-        (dragNode as any).fx = e.clientX - rect.left;
-        (dragNode as any).fy = e.clientY - rect.top;
+    const updateHover = (e: PointerEvent) => {
+      const container = containerRef.current;
+      if (!container || e.pointerType !== 'mouse') return;
+
+      const point = toCanvasPoint(e);
+      const node = findNodeAt(point.x, point.y);
+      canvas.style.cursor = node ? 'pointer' : '';
+
+      const rect = container.getBoundingClientRect();
+      setHovered(prev => {
+        if (!node) return null;
+        if (prev?.id === node.id) return prev;
+        return { id: node.id, left: e.clientX - rect.left, top: e.clientY - rect.top };
+      });
+    };
+
+    const handlePointerLeave = () => {
+      canvas.style.cursor = '';
+      setHovered(null);
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (pointers.size === 0) {
+        updateHover(e);
+        return;
+      }
+      if (!pointers.has(e.pointerId)) return;
+      const point = toCanvasPoint(e);
+      pointers.set(e.pointerId, point);
+
+      if (Math.hypot(point.x - gestureStart.x, point.y - gestureStart.y) > 4) {
+        dragMoved = true;
+      }
+
+      if (mode === 'node' && dragNode) {
+        const graphPoint = screenToGraph(cameraRef.current, point.x, point.y);
+        pinDragNode(graphPoint.x, graphPoint.y);
+      } else if (mode === 'pan') {
+        cameraRef.current = {
+          ...gestureStart.camera,
+          x: gestureStart.camera.x + point.x - gestureStart.x,
+          y: gestureStart.camera.y + point.y - gestureStart.y,
+        };
+        render();
+      } else if (mode === 'pinch' && pointers.size === 2) {
+        const pinch = pinchMetrics();
+        const start = gestureStart.camera;
+        const anchor = screenToGraph(start, gestureStart.x, gestureStart.y);
+        const zoomed = zoomAround(start, gestureStart.x, gestureStart.y, pinch.distance / gestureStart.distance);
+        // Keep the graph point that started under the fingers' midpoint under it as they move
+        cameraRef.current = {
+          k: zoomed.k,
+          x: pinch.x - anchor.x * zoomed.k,
+          y: pinch.y - anchor.y * zoomed.k,
+        };
+        render();
       }
     };
 
-    const handleMouseUp = () => {
-      if (dragNode) {
-        (dragNode as any).fx = null;
-        (dragNode as any).fy = null;
-        dragNode = null;
-        simulation.alphaTarget(0);
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!pointers.delete(e.pointerId)) return;
+
+      // A click selects the node under it, or clears the selection on empty space
+      if (mode === 'node' && dragNode && !dragMoved) {
+        const clickedId = dragNode.id;
+        setSelectedId(prev => (prev === clickedId ? null : clickedId));
+      } else if (mode === 'pan' && !dragMoved) {
+        setSelectedId(null);
+      }
+      releaseDragNode();
+
+      if (pointers.size === 1 && mode === 'pinch') {
+        // Carry on panning with the remaining finger
+        const [remaining] = Array.from(pointers.values());
+        mode = 'pan';
+        gestureStart = { ...remaining, distance: 1, camera: cameraRef.current };
+      } else if (pointers.size === 0) {
+        mode = 'none';
+      }
+    };
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const point = toCanvasPoint(e);
+      // Trackpad pinches arrive as ctrl+wheel with small deltas
+      const sensitivity = e.ctrlKey ? 0.01 : 0.0015;
+      cameraRef.current = zoomAround(cameraRef.current, point.x, point.y, Math.exp(-e.deltaY * sensitivity));
+      render();
+    };
+
+    const handleDoubleClick = (e: MouseEvent) => {
+      const point = toCanvasPoint(e);
+      const node = findNodeAt(point.x, point.y);
+      if (node) {
+        animateCamera(centerOn(node.x, node.y, width, height, Math.max(cameraRef.current.k, 2)));
       }
     };
 
-    canvas.addEventListener('mousedown', handleMouseDown);
-    canvas.addEventListener('mousemove', handleMouseMove);
-    canvas.addEventListener('mouseup', handleMouseUp);
+    canvas.addEventListener('pointerdown', handlePointerDown);
+    canvas.addEventListener('pointermove', handlePointerMove);
+    canvas.addEventListener('pointerup', handlePointerUp);
+    canvas.addEventListener('pointercancel', handlePointerUp);
+    canvas.addEventListener('pointerleave', handlePointerLeave);
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    canvas.addEventListener('dblclick', handleDoubleClick);
 
     return () => {
-      simulation.stop();
-      canvas.removeEventListener('mousedown', handleMouseDown);
-      canvas.removeEventListener('mousemove', handleMouseMove);
-      canvas.removeEventListener('mouseup', handleMouseUp);
+      releaseDragNode();
+      if (frame !== undefined) cancelAnimationFrame(frame);
+      webgl?.dispose();
+      canvas.removeEventListener('pointerdown', handlePointerDown);
+      canvas.removeEventListener('pointermove', handlePointerMove);
+      canvas.removeEventListener('pointerup', handlePointerUp);
+      canvas.removeEventListener('pointercancel', handlePointerUp);
+      canvas.removeEventListener('pointerleave', handlePointerLeave);
+      canvas.removeEventListener('wheel', handleWheel);
+      canvas.removeEventListener('dblclick', handleDoubleClick);
     };
-  }, [nodes, links, highlightNodes, highlightLinks]);
+  }, [nodes, links, renderWithWebGL, animateCamera]);
+
+  const searchablePeople = useMemo(
+    () => nodes.map(node => ({ id: node.id, name: node.name, type: nodeTypeLabels[node.type] })),
+    [nodes]
+  );
+
+  const listedCommunities = useMemo(() => {
+    const visible = new Set(nodes.map(node => node.id));
+    return Array.from(groups.entries())
+      .filter(([, members]) => members.some(id => visible.has(id)))
+      .slice(0, MAX_LISTED_COMMUNITIES);
+  }, [groups, nodes]);
+
+  const nameCommunity = (index: number, members: string[], name: string) => {
+    const label = labelsByCommunity.get(index);
+    const trimmed = name.trim();
+    if (trimmed === (label?.name ?? '')) return;
+    onNameCommunity?.(members, trimmed, label?.id ?? null);
+  };
+
+  const hoveredNode = hovered ? nodes.find(n => n.id === hovered.id) : null;
+  const selectedNode = selectedId ? nodes.find(n => n.id === selectedId) : null;
+
+  const describeNode = (node: GraphNode) => {
+    const parts: string[] = [];
+    if (node.type !== 'current') {
+      parts.push(`${node.mutualCount} mutual`);
+    }
+    parts.push(`${node.connections} connection${node.connections !== 1 ? 's' : ''}`);
+    return parts.join(' · ');
+  };
 
   return (
     <div className="w-full space-y-4">
-      <div className="flex items-center gap-4 text-sm text-muted-foreground">
-        <div className="flex items-center gap-2">
-          <div className="w-4 h-4 rounded-full bg-[#9b87f5]"></div>
-          <span>You</span>
-        </div>
-        <div className="flex items-center gap-2">
-          <div className="w-4 h-4 rounded-full bg-[#7E69AB]"></div>
-          <span>Friends</span>
-        </div>
-        <div className="flex items-center gap-2">
-          <div className="w-4 h-4 rounded-full bg-[#F97316]"></div>
-          <span>Mutual Friends</span>
-        </div>
-        <div className="flex items-center gap-2">
-          <div className="w-4 h-4 rounded-full bg-[#D6BCFA]"></div>
-          <span>Suggested</span>
+      <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+        {legendItems.map(item => {
+          const hidden = filters.hiddenTypes.includes(item.type);
+          return (
+            <button
+              key={item.type}
+              type="button"
+              onClick={() => toggleType(item.type)}
+              aria-pressed={!hidden}
+              title={hidden ? `show ${item.label.toLowerCase()}` : `hide ${item.label.toLowerCase()}`}
+              className={`flex items-center gap-2 rounded-md px-1 transition-opacity hover:text-foreground ${
+                hidden ? 'opacity-40 line-through' : ''
+              }`}
+            >
+              <div className="w-4 h-4 rounded-full" style={{ backgroundColor: item.color }}></div>
+              <span>{item.label}</span>
+            </button>
+          );
+        })}
+        <div className="flex items-center gap-2 ml-auto w-56">
+          <span className="text-xs whitespace-nowrap">min mutual</span>
+          <Slider
+            min={0}
+            max={Math.max(maxSuggestionMutual, 1)}
+            step={1}
+            value={[filters.minMutual]}
+            onValueChange={([minMutual]) => updateFilters({ ...filters, minMutual })}
+            disabled={filters.hiddenTypes.includes('suggestion')}
+            aria-label="minimum mutual friends for suggestions"
+          />
+          <span className="text-xs font-mono w-4">{filters.minMutual}</span>
         </div>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={colorBy}
+          onValueChange={value => value && setColorBy(value as 'type' | 'community')}
+          aria-label="color nodes by"
+        >
+          <ToggleGroupItem value="type" className="text-xs h-7">by type</ToggleGroupItem>
+          <ToggleGroupItem value="community" className="text-xs h-7">by community</ToggleGroupItem>
+        </ToggleGroup>
       </div>
-      <div className="w-full h-[600px] glass-card rounded-lg overflow-hidden border border-primary/20 bg-[#0a0a0a]">
+      {colorBy === 'community' && (
+        <div className="flex flex-wrap items-center gap-2">
+          {listedCommunities.length === 0 ? (
+            <p className="text-xs text-muted-foreground">no communities yet — they show up once your friends know each other</p>
+          ) : (
+            listedCommunities.map(([index, members]) => {
+              const label = labelsByCommunity.get(index);
+              return (
+                <div key={`${index}-${label?.id ?? 'unnamed'}`} className="flex items-center gap-1.5 rounded-md border px-2 py-1">
+                  <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: communityColor(index) }} />
+                  <Input
+                    defaultValue={label?.name ?? ''}
+                    placeholder="name this group"
+                    maxLength={40}
+                    disabled={!onNameCommunity}
+                    onBlur={e => nameCommunity(index, members, e.target.value)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                    }}
+                    className="h-6 w-28 border-0 bg-transparent px-1 text-xs focus-visible:ring-1"
+                    aria-label={`name for community of ${members.length}`}
+                  />
+                  <span className="text-xs text-muted-foreground">{members.length}</span>
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+      <div
+        ref={containerRef}
+        className="relative w-full h-[600px] glass-card rounded-lg overflow-hidden border border-primary/20 bg-[#0a0a0a]"
+      >
+        {renderWithWebGL && (
+          <>
+            <canvas
+              ref={hullCanvasRef}
+              width={1200}
+              height={600}
+              className="absolute inset-0 w-full h-full pointer-events-none"
+            />
+            <canvas
+              ref={glCanvasRef}
+              width={1200}
+              height={600}
+              className="absolute inset-0 w-full h-full pointer-events-none"
+            />
+          </>
+        )}
         <canvas
           ref={canvasRef}
           width={1200}
           height={600}
-          className="w-full h-full cursor-grab active:cursor-grabbing"
+          className="relative w-full h-full cursor-grab active:cursor-grabbing touch-none"
         />
+        <div className="absolute top-3 left-3 z-20 flex items-start gap-2">
+          <GraphSearch
+            people={searchablePeople}
+            onFocusPerson={focusPerson}
+            onClear={() => setSelectedId(null)}
+          />
+          <Select value={layout} onValueChange={value => setLayout(value as GraphLayoutId)}>
+            <SelectTrigger className="h-8 w-[170px] text-xs bg-secondary" aria-label="layout">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(graphLayouts).map(option => (
+                <SelectItem key={option.id} value={option.id} className="text-xs">
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="absolute top-3 right-3 flex flex-col gap-2">
+          <Button size="icon" variant="secondary" className="h-8 w-8" onClick={() => zoomBy(1.4)} aria-label="zoom in">
+            <ZoomIn className="w-4 h-4" />
+          </Button>
+          <Button size="icon" variant="secondary" className="h-8 w-8" onClick={() => zoomBy(1 / 1.4)} aria-label="zoom out">
+            <ZoomOut className="w-4 h-4" />
+          </Button>
+          <Button size="icon" variant="secondary" className="h-8 w-8" onClick={fitToView} aria-label="fit all" title="fit all">
+            <Maximize2 className="w-4 h-4" />
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="icon" variant="secondary" className="h-8 w-8" aria-label="export" title="export" disabled={nodes.length === 0}>
+                <Download className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel className="text-xs text-muted-foreground">this view</DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => exportImage('png')}>PNG image</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportImage('svg')}>SVG image</DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-muted-foreground">network data</DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => exportData('graphml')}>GraphML</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportData('gexf')}>GEXF (Gephi)</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportData('csv')}>CSV edge list</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportData('json')}>JSON (networkx)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        <p className="absolute bottom-3 left-3 text-xs text-white/50 pointer-events-none">
+          scroll or pinch to zoom · drag empty space to pan · click someone to select · double-click to zoom in
+        </p>
+
+        {hoveredNode && hoveredNode.id !== selectedId && (
+          <div
+            className="absolute z-10 pointer-events-none rounded-md border bg-popover px-3 py-2 text-popover-foreground shadow-md animate-fade-in"
+            style={{ left: hovered.left + 14, top: hovered.top + 14 }}
+          >
+            <p className="text-sm font-semibold">{hoveredNode.name}</p>
+            <p className="text-xs text-muted-foreground">
+              {nodeTypeLabels[hoveredNode.type]} · {describeNode(hoveredNode)}
+            </p>
+          </div>
+        )}
+
+        {selectedNode && (
+          <div className="absolute bottom-3 right-3 z-10 w-64 rounded-lg border bg-popover p-4 text-popover-foreground shadow-md space-y-3 animate-fade-in">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="font-semibold truncate">{selectedNode.name}</p>
+                <p className="text-xs text-muted-foreground">{describeNode(selectedNode)}</p>
+              </div>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-6 w-6 shrink-0"
+                onClick={() => setSelectedId(null)}
+                aria-label="clear selection"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+            <Badge variant="secondary">{nodeTypeLabels[selectedNode.type]}</Badge>
+            {selectedNode.type !== 'current' && (
+              <div className="flex gap-2">
+                {onViewProfile && (
+                  <Button size="sm" variant="outline" className="flex-1" onClick={() => onViewProfile(selectedNode.id)}>
+                    <UserRound className="w-4 h-4 mr-1" />
+                    profile
+                  </Button>
+                )}
+                {onAddFriend && (selectedNode.type === 'suggestion' || selectedNode.type === 'extended') && (
+                  requestedUserIds?.includes(selectedNode.id) ? (
+                    <Button size="sm" variant="secondary" className="flex-1" disabled>
+                      requested
+                    </Button>
+                  ) : (
+                    <Button
+                      size="sm"
+                      className="flex-1 bg-gradient-to-r from-primary to-accent hover:opacity-90"
+                      onClick={() => onAddFriend(selectedNode.id)}
+                    >
+                      <UserPlus className="w-4 h-4 mr-1" />
+                      add
+                    </Button>
+                  )
+                )}
+              </div>
+            )}
+            {(selectedNode.type === 'suggestion' || selectedNode.type === 'extended') && onExpand && (
+              expandedIds?.includes(selectedNode.id) ? (
+                <Button size="sm" variant="ghost" className="w-full" onClick={() => onCollapse?.(selectedNode.id)}>
+                  <Minus className="w-4 h-4 mr-1" />
+                  collapse their friends
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="w-full"
+                  onClick={() => onExpand(selectedNode.id)}
+                  disabled={expandingId === selectedNode.id}
+                >
+                  {expandingId === selectedNode.id ? (
+                    <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                  ) : (
+                    <Plus className="w-4 h-4 mr-1" />
+                  )}
+                  expand their friends
+                </Button>
+              )
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,215 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import type { NetworkInsights as Insights } from '@/lib/networkInsights';
+
+// Friends charted per bar chart, and people or friendships listed per section
+const MAX_CHART_ROWS = 10;
+const MAX_LISTED = 12;
+
+interface NetworkInsightsProps {
+  currentUserId: string;
+  insights: Insights;
+  names: Map<string, string>;
+}
+
+const degreeConfig = {
+  count: { label: 'people', color: 'hsl(var(--chart-1))' },
+} satisfies ChartConfig;
+
+const betweennessConfig = {
+  betweenness: { label: 'betweenness', color: 'hsl(var(--chart-2))' },
+} satisfies ChartConfig;
+
+const clusteringConfig = {
+  clustering: { label: 'clustering', color: 'hsl(var(--chart-3))' },
+} satisfies ChartConfig;
+
+const lossConfig = {
+  lost: { label: 'unreachable', color: 'hsl(var(--chart-4))' },
+} satisfies ChartConfig;
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const NetworkInsights = ({ currentUserId, insights, names }: NetworkInsightsProps) => {
+  const nameOf = (id: string) => (id === currentUserId ? 'you' : names.get(id) || 'someone');
+
+  const stats = [
+    { label: 'people', value: insights.people.toString() },
+    { label: 'connections', value: insights.connections.toString() },
+    { label: 'density', value: percent(insights.density) },
+    { label: 'your friends who know each other', value: percent(insights.myClustering) },
+    { label: 'avg clustering', value: insights.averageClustering.toFixed(2) },
+  ];
+
+  const betweennessData = insights.friendBetweenness
+    .slice(0, MAX_CHART_ROWS)
+    .map(entry => ({ name: nameOf(entry.id), betweenness: Number(entry.betweenness.toFixed(3)) }));
+  const clusteringData = insights.friendClustering
+    .slice(0, MAX_CHART_ROWS)
+    .map(entry => ({ name: nameOf(entry.id), clustering: Number(entry.clustering.toFixed(2)) }));
+  const lossData = insights.reachabilityLoss
+    .slice(0, MAX_CHART_ROWS)
+    .map(entry => ({ name: nameOf(entry.id), lost: entry.lost.length }));
+
+  // Horizontal bars sized so each friend's name gets a row
+  const barHeight = (rows: number) => ({ height: Math.max(rows, 3) * 32 + 40 });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {stats.map(stat => (
+          <Card key={stat.label} className="glass-card shadow-card">
+            <CardContent className="p-4">
+              <p className="text-2xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+                {stat.value}
+              </p>
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card className="glass-card shadow-card">
+          <CardHeader>
+            <CardTitle className="text-lg">degree distribution</CardTitle>
+            <CardDescription>how many people have how many connections</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={degreeConfig} className="aspect-auto h-64 w-full">
+              <BarChart data={insights.degreeDistribution}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="degree" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={degree => `${degree} connections`} />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card shadow-card">
+          <CardHeader>
+            <CardTitle className="text-lg">bridges between your groups</CardTitle>
+            <CardDescription>betweenness of your friends, counting paths that don't go through you</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {betweennessData.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-12">add some friends to see who connects your circles</p>
+            ) : (
+              <ChartContainer config={betweennessConfig} className="aspect-auto w-full" style={barHeight(betweennessData.length)}>
+                <BarChart data={betweennessData} layout="vertical" margin={{ left: 8 }}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" tickLine={false} axisLine={false} />
+                  <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={96} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="betweenness" fill="var(--color-betweenness)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card shadow-card">
+          <CardHeader>
+            <CardTitle className="text-lg">tight-knit friends</CardTitle>
+            <CardDescription>local clustering coefficient: how many of their friends know each other</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {clusteringData.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-12">no friends to measure yet</p>
+            ) : (
+              <ChartContainer config={clusteringConfig} className="aspect-auto w-full" style={barHeight(clusteringData.length)}>
+                <BarChart data={clusteringData} layout="vertical" margin={{ left: 8 }}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" domain={[0, 1]} tickLine={false} axisLine={false} />
+                  <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={96} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="clustering" fill="var(--color-clustering)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card shadow-card">
+          <CardHeader>
+            <CardTitle className="text-lg">single points of failure</CardTitle>
+            <CardDescription>people you'd lose your only path to if one friend dropped out</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {lossData.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-12">
+                everyone in your network is reachable more than one way 💪
+              </p>
+            ) : (
+              <>
+                <ChartContainer config={lossConfig} className="aspect-auto w-full" style={barHeight(lossData.length)}>
+                  <BarChart data={lossData} layout="vertical" margin={{ left: 8 }}>
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                    <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={96} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="lost" fill="var(--color-lost)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+                <ul className="space-y-1 text-sm">
+                  {insights.reachabilityLoss.slice(0, MAX_CHART_ROWS).map(entry => (
+                    <li key={entry.id} className="text-muted-foreground">
+                      <span className="font-medium text-foreground">{nameOf(entry.id)}</span> is your only way to{' '}
+                      {entry.lost.slice(0, 3).map(nameOf).join(', ')}
+                      {entry.lost.length > 3 && ` and ${entry.lost.length - 3} more`}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="glass-card shadow-card">
+        <CardHeader>
+          <CardTitle className="text-lg">cut points</CardTitle>
+          <CardDescription>people and friendships that hold the network together on their own</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">articulation points ({insights.articulationPoints.length})</h4>
+            {insights.articulationPoints.length === 0 ? (
+              <p className="text-xs text-muted-foreground">nobody — removing any one person keeps everyone connected</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {insights.articulationPoints.slice(0, MAX_LISTED).map(id => (
+                  <Badge key={id} variant="secondary">{nameOf(id)}</Badge>
+                ))}
+                {insights.articulationPoints.length > MAX_LISTED && (
+                  <Badge variant="outline">+{insights.articulationPoints.length - MAX_LISTED} more</Badge>
+                )}
+              </div>
+            )}
+          </div>
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">bridges ({insights.bridges.length})</h4>
+            {insights.bridges.length === 0 ? (
+              <p className="text-xs text-muted-foreground">no friendship is the only link between two parts</p>
+            ) : (
+              <ul className="space-y-1 text-sm">
+                {insights.bridges.slice(0, MAX_LISTED).map(([a, b]) => (
+                  <li key={`${a}-${b}`}>
+                    {nameOf(a)} ↔ {nameOf(b)}
+                  </li>
+                ))}
+                {insights.bridges.length > MAX_LISTED && (
+                  <li className="text-muted-foreground">+{insights.bridges.length - MAX_LISTED} more</li>
+                )}
+              </ul>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
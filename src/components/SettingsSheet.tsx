@@ -0,0 +1,182 @@
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { Settings, Undo2, ShieldOff } from 'lucide-react';
+import {
+  profileFields,
+  visibilityOptions,
+  type ProfileField,
+  type ProfileVisibility,
+} from '@/lib/profilePrivacy';
+
+interface DismissedSuggestion {
+  id: string;
+  snoozed_until: string | null;
+  profile: { user_id: string; name: string };
+}
+
+interface BlockedUser {
+  id: string;
+  profile: { user_id: string; name: string };
+}
+
+interface SettingsSheetProps {
+  fieldVisibility: Record<ProfileField, ProfileVisibility>;
+  onChangeFieldVisibility: (field: ProfileField, visibility: ProfileVisibility) => void;
+  dismissedSuggestions: DismissedSuggestion[];
+  onUndoDismissal: (dismissalId: string, dismissedUserId: string) => void;
+  blockedUsers: BlockedUser[];
+  onUnblock: (blockId: string) => void;
+  loading?: string | null;
+}
+
+export const SettingsSheet = ({
+  fieldVisibility,
+  onChangeFieldVisibility,
+  dismissedSuggestions,
+  onUndoDismissal,
+  blockedUsers,
+  onUnblock,
+  loading,
+}: SettingsSheetProps) => {
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="icon" className="interactive-scale">
+          <Settings className="w-4 h-4" />
+          <span className="sr-only">settings</span>
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>settings</SheetTitle>
+          <SheetDescription>tune what shows up for you</SheetDescription>
+        </SheetHeader>
+
+        <Separator className="my-4" />
+
+        <section className="space-y-3">
+          <div>
+            <h3 className="text-sm font-semibold">privacy</h3>
+            <p className="text-xs text-muted-foreground">
+              who can see each part of your profile (your name is always visible)
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            {profileFields.map(({ field, label }) => (
+              <div key={field} className="flex items-center justify-between gap-2">
+                <span className="text-sm">{label}</span>
+                <Select
+                  value={fieldVisibility[field]}
+                  onValueChange={value => onChangeFieldVisibility(field, value as ProfileVisibility)}
+                >
+                  <SelectTrigger className="w-[170px] h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {visibilityOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <Separator className="my-4" />
+
+        <section className="space-y-3">
+          <div>
+            <h3 className="text-sm font-semibold">hidden suggestions</h3>
+            <p className="text-xs text-muted-foreground">
+              people you marked as not interested or snoozed
+            </p>
+          </div>
+
+          {dismissedSuggestions.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">
+              nothing hidden rn ✨
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {dismissedSuggestions.map(dismissal => (
+                <div
+                  key={dismissal.id}
+                  className="flex items-center justify-between gap-2 rounded-md border border-border/50 p-2"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{dismissal.profile.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {dismissal.snoozed_until
+                        ? `snoozed until ${format(new Date(dismissal.snoozed_until), 'MMM d, yyyy')}`
+                        : 'not interested'}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onUndoDismissal(dismissal.id, dismissal.profile.user_id)}
+                    disabled={loading === dismissal.profile.user_id}
+                  >
+                    <Undo2 className="w-4 h-4 mr-2" />
+                    undo
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <Separator className="my-4" />
+
+        <section className="space-y-3">
+          <div>
+            <h3 className="text-sm font-semibold">blocked</h3>
+            <p className="text-xs text-muted-foreground">
+              they can't see you, find you or send you requests
+            </p>
+          </div>
+
+          {blockedUsers.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">
+              no one blocked 🕊️
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {blockedUsers.map(block => (
+                <div
+                  key={block.id}
+                  className="flex items-center justify-between gap-2 rounded-md border border-border/50 p-2"
+                >
+                  <p className="text-sm font-medium truncate">{block.profile.name}</p>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onUnblock(block.id)}
+                    disabled={loading === block.profile.user_id}
+                  >
+                    <ShieldOff className="w-4 h-4 mr-2" />
+                    unblock
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </SheetContent>
+    </Sheet>
+  );
+};
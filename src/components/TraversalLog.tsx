@@ -0,0 +1,120 @@
+import { useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Download } from 'lucide-react';
+import { traversalToJSON, type TraversalEvent } from '@/lib/traversal';
+import { downloadBlob } from '@/lib/download';
+
+interface TraversalLogProps {
+  events: TraversalEvent[];
+  // How many events have played; later ones are dimmed
+  position: number;
+  onSeek: (position: number) => void;
+  // Extra fields written alongside the events when exporting
+  exportMeta?: Record<string, unknown>;
+}
+
+const describeEvent = (event: TraversalEvent): { text: string; className: string; indent: boolean } => {
+  switch (event.type) {
+    case 'start':
+      return {
+        text: `🚀 Starting BFS traversal for ${event.name} · ${event.friendCount} friends`,
+        className: 'text-foreground/80',
+        indent: false,
+      };
+    case 'visit-node':
+      return {
+        text: `👤 Visiting ${event.name} (friend ${event.index + 1}/${event.total}) · ${event.connectionCount} connections`,
+        className: 'text-foreground/80 pt-2',
+        indent: false,
+      };
+    case 'inspect-edge':
+      return { text: `→ checking ${event.name}`, className: 'text-muted-foreground', indent: true };
+    case 'found-candidate':
+      return {
+        text: `✨ Found ${event.name} (${event.mutualCount} mutual)`,
+        className: 'text-primary',
+        indent: true,
+      };
+    case 'skip-existing-friend':
+      return {
+        text: `↩ ${event.name} is already a friend`,
+        className: 'text-muted-foreground',
+        indent: true,
+      };
+    case 'complete':
+      return {
+        text: `✅ Traversal complete · ${event.candidateCount} friends of friends, ranked by ${event.scorerLabel}`,
+        className: 'text-success pt-2',
+        indent: false,
+      };
+    case 'rank-result': {
+      const score = event.score !== null ? `, score ${event.score.toFixed(2)}` : '';
+      return {
+        text: `${event.rank}. ${event.name} - ${event.mutualFriends} mutual friend${event.mutualFriends !== 1 ? 's' : ''}${score}`,
+        className: 'text-foreground/80',
+        indent: true,
+      };
+    }
+  }
+};
+
+export const TraversalLog = ({ events, position, onSeek, exportMeta }: TraversalLogProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Keep the event being played visible inside the log without scrolling the page
+  useEffect(() => {
+    const container = containerRef.current;
+    const current = container?.querySelector<HTMLElement>('[data-current="true"]');
+    if (!container || !current) return;
+
+    const top = current.offsetTop - container.offsetTop;
+    if (top < container.scrollTop || top + current.offsetHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTop = top - container.clientHeight / 2;
+    }
+  }, [position]);
+
+  const exportTrace = () => {
+    const json = traversalToJSON(events, exportMeta);
+    downloadBlob(new Blob([json], { type: 'application/json' }), 'traversal-trace.json');
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative glass-card border border-primary/20 rounded-lg p-4 max-h-60 overflow-y-auto"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-muted-foreground">Traversal Log</h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={exportTrace}
+          disabled={events.length === 0}
+        >
+          <Download className="w-3 h-3 mr-1" />
+          json
+        </Button>
+      </div>
+      <div className="font-mono text-xs space-y-1">
+        {events.map((event, index) => {
+          const { text, className, indent } = describeEvent(event);
+          const isCurrent = index === position - 1;
+          const isPlayed = index < position;
+          return (
+            <div
+              key={index}
+              data-current={isCurrent}
+              onClick={() => onSeek(index + 1)}
+              className={`cursor-pointer rounded px-1 transition-colors ${indent ? 'ml-4' : ''} ${
+                isCurrent ? 'bg-primary/15' : 'hover:bg-primary/5'
+              } ${isPlayed ? '' : 'opacity-40'} ${className}`}
+            >
+              {text}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Pause, Play, RotateCcw, SkipBack, SkipForward } from 'lucide-react';
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+
+interface TraversalPlaybackProps {
+  position: number;
+  total: number;
+  playing: boolean;
+  speed: number;
+  onPlay: () => void;
+  onPause: () => void;
+  onStepForward: () => void;
+  onStepBack: () => void;
+  onRestart: () => void;
+  onSeek: (position: number) => void;
+  onSpeedChange: (speed: number) => void;
+  // Stack the controls for narrow side panels
+  compact?: boolean;
+}
+
+export const TraversalPlayback = ({
+  position,
+  total,
+  playing,
+  speed,
+  onPlay,
+  onPause,
+  onStepForward,
+  onStepBack,
+  onRestart,
+  onSeek,
+  onSpeedChange,
+  compact = false,
+}: TraversalPlaybackProps) => {
+  const speedIndex = Math.max(0, SPEEDS.indexOf(speed));
+
+  return (
+    <div className={`flex flex-col gap-3 ${compact ? '' : 'sm:flex-row sm:items-center'}`}>
+      <div className="flex items-center gap-1">
+        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={onRestart} aria-label="restart">
+          <RotateCcw className="w-4 h-4" />
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-8 w-8"
+          onClick={onStepBack}
+          disabled={position === 0}
+          aria-label="step back"
+        >
+          <SkipBack className="w-4 h-4" />
+        </Button>
+        <Button
+          size="icon"
+          className="h-8 w-8 bg-gradient-to-r from-primary to-accent hover:opacity-90"
+          onClick={playing ? onPause : onPlay}
+          disabled={total === 0}
+          aria-label={playing ? 'pause' : 'play'}
+        >
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-8 w-8"
+          onClick={onStepForward}
+          disabled={position >= total}
+          aria-label="step forward"
+        >
+          <SkipForward className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-1 items-center gap-3">
+        <Slider
+          min={0}
+          max={Math.max(total, 1)}
+          step={1}
+          value={[position]}
+          onValueChange={([value]) => onSeek(value)}
+          aria-label="traversal progress"
+        />
+        <span className="text-xs text-muted-foreground font-mono whitespace-nowrap">
+          {position}/{total}
+        </span>
+      </div>
+
+      <div className={`flex items-center gap-2 ${compact ? '' : 'sm:w-40'}`}>
+        <span className="text-xs text-muted-foreground">speed</span>
+        <Slider
+          min={0}
+          max={SPEEDS.length - 1}
+          step={1}
+          value={[speedIndex]}
+          onValueChange={([index]) => onSpeedChange(SPEEDS[index])}
+          aria-label="playback speed"
+        />
+        <span className="text-xs text-muted-foreground font-mono w-8">{speed}×</span>
+      </div>
+    </div>
+  );
+};
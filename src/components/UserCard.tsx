@@ -1,29 +1,81 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardFooter, CardHeader } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
-import { UserPlus, UserMinus, Users } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { degreeBucket, degreeLabels } from '@/lib/degrees';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { UserPlus, UserMinus, Users, Check, X, Clock, Network, MoreHorizontal, EyeOff, AlarmClock, Ban, Route } from 'lucide-react';
 
 interface UserCardProps {
   id: string;
   name: string;
-  email: string;
+  // Private fields come back null when the viewer isn't allowed to see them
+  email?: string | null;
+  bio?: string | null;
+  avatarUrl?: string | null;
   isFriend?: boolean;
+  // Hop distance from the current user; null when not connected at all
+  degree?: number | null;
   mutualFriends?: number;
+  mutualFriendProfiles?: Array<{ user_id: string; name: string; avatar_url?: string | null }>;
+  onShowMutualFriends?: () => void;
+  requestStatus?: 'incoming' | 'outgoing';
   onAddFriend?: () => void;
   onRemoveFriend?: () => void;
+  onAcceptRequest?: () => void;
+  onDeclineRequest?: () => void;
+  onCancelRequest?: () => void;
+  onDismiss?: () => void;
+  onSnooze?: () => void;
+  onBlock?: () => void;
+  onShowConnection?: () => void;
   loading?: boolean;
 }
 
 export const UserCard = ({ 
+  id,
   name, 
   email, 
+  bio,
+  avatarUrl,
   isFriend, 
+  degree,
   mutualFriends, 
+  mutualFriendProfiles,
+  onShowMutualFriends,
+  requestStatus,
   onAddFriend, 
   onRemoveFriend,
+  onAcceptRequest,
+  onDeclineRequest,
+  onCancelRequest,
+  onDismiss,
+  onSnooze,
+  onBlock,
+  onShowConnection,
   loading 
 }: UserCardProps) => {
+  const [confirmingBlock, setConfirmingBlock] = useState(false);
+
   const getInitials = (name: string) => {
     return name
       .split(' ')
@@ -37,24 +89,136 @@ export const UserCard = ({
     <Card className="glass-card overflow-hidden hover:shadow-glow transition-all duration-300 interactive-scale group">
       <CardHeader className="space-y-4">
         <div className="flex items-center gap-3">
-          <Avatar className="w-14 h-14 ring-2 ring-primary/20 group-hover:ring-primary/40 transition-all">
-            <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-primary-foreground font-bold">
-              {getInitials(name)}
-            </AvatarFallback>
-          </Avatar>
+          <Link to={`/u/${id}`} className="rounded-full" aria-label={`view ${name}'s profile`}>
+            <Avatar className="w-14 h-14 ring-2 ring-primary/20 group-hover:ring-primary/40 transition-all">
+              {avatarUrl && <AvatarImage src={avatarUrl} alt={name} />}
+              <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-primary-foreground font-bold">
+                {getInitials(name)}
+              </AvatarFallback>
+            </Avatar>
+          </Link>
           <div className="flex-1 min-w-0">
-            <h3 className="font-bold text-lg truncate">{name}</h3>
-            <p className="text-xs text-muted-foreground truncate">{email}</p>
+            <div className="flex items-center gap-2 min-w-0">
+              <Link to={`/u/${id}`} className="min-w-0 hover:underline underline-offset-4">
+                <h3 className="font-bold text-lg truncate">{name}</h3>
+              </Link>
+              {degree !== undefined && (
+                <Badge
+                  variant={degree === 1 ? 'default' : 'outline'}
+                  className="shrink-0 px-2 py-0 text-[10px]"
+                >
+                  {degreeLabels[degreeBucket(degree)]}
+                </Badge>
+              )}
+            </div>
+            {email && (
+              <p className="text-xs text-muted-foreground truncate">{email}</p>
+            )}
           </div>
+          {(onDismiss || onSnooze || onBlock) && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" disabled={loading}>
+                  <MoreHorizontal className="w-4 h-4" />
+                  <span className="sr-only">more options</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {onDismiss && (
+                  <DropdownMenuItem onClick={onDismiss}>
+                    <EyeOff className="w-4 h-4 mr-2" />
+                    not interested
+                  </DropdownMenuItem>
+                )}
+                {onSnooze && (
+                  <DropdownMenuItem onClick={onSnooze}>
+                    <AlarmClock className="w-4 h-4 mr-2" />
+                    snooze for 30 days
+                  </DropdownMenuItem>
+                )}
+                {onBlock && (onDismiss || onSnooze) && <DropdownMenuSeparator />}
+                {onBlock && (
+                  <DropdownMenuItem
+                    onClick={() => setConfirmingBlock(true)}
+                    className="text-destructive focus:text-destructive"
+                  >
+                    <Ban className="w-4 h-4 mr-2" />
+                    block
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
         </div>
+        {bio && (
+          <p className="text-sm text-foreground/80 line-clamp-2">{bio}</p>
+        )}
       </CardHeader>
       
       {mutualFriends !== undefined && mutualFriends > 0 && (
         <CardContent className="pb-3">
-          <Badge variant="secondary" className="w-full justify-center gap-2 py-2">
-            <Users className="w-3 h-3" />
-            <span>{mutualFriends} mutual vibe{mutualFriends !== 1 ? 's' : ''}</span>
-          </Badge>
+          {mutualFriendProfiles && mutualFriendProfiles.length > 0 ? (
+            <Popover>
+              <PopoverTrigger asChild>
+                <button type="button" className="w-full" aria-label="why is this suggested?">
+                  <Badge variant="secondary" className="w-full justify-center gap-2 py-2 cursor-pointer hover:bg-secondary/60">
+                    <Users className="w-3 h-3" />
+                    <span>{mutualFriends} mutual vibe{mutualFriends !== 1 ? 's' : ''}</span>
+                  </Badge>
+                </button>
+              </PopoverTrigger>
+              <PopoverContent className="glass-card space-y-3">
+                <p className="text-sm font-semibold">why {name.split(' ')[0]}?</p>
+                <p className="text-xs text-muted-foreground">
+                  you're connected through {mutualFriends === 1 ? 'this friend' : 'these friends'}
+                </p>
+                <div className="space-y-2 max-h-48 overflow-y-auto">
+                  {mutualFriendProfiles.map(mutual => (
+                    <div key={mutual.user_id} className="flex items-center gap-2">
+                      <Avatar className="w-7 h-7">
+                        {mutual.avatar_url && <AvatarImage src={mutual.avatar_url} alt={mutual.name} />}
+                        <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-primary-foreground text-[10px] font-bold">
+                          {getInitials(mutual.name)}
+                        </AvatarFallback>
+                      </Avatar>
+                      <span className="text-sm truncate">{mutual.name}</span>
+                    </div>
+                  ))}
+                </div>
+                {onShowMutualFriends && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full interactive-scale"
+                    onClick={onShowMutualFriends}
+                  >
+                    <Network className="w-4 h-4 mr-2" />
+                    show in graph
+                  </Button>
+                )}
+              </PopoverContent>
+            </Popover>
+          ) : (
+            <Badge variant="secondary" className="w-full justify-center gap-2 py-2">
+              <Users className="w-3 h-3" />
+              <span>{mutualFriends} mutual vibe{mutualFriends !== 1 ? 's' : ''}</span>
+            </Badge>
+          )}
+        </CardContent>
+      )}
+
+      {onShowConnection && (
+        <CardContent className="pb-3">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onShowConnection}
+            className="w-full text-xs text-muted-foreground hover:text-foreground"
+            disabled={loading}
+          >
+            <Route className="w-3 h-3 mr-2" />
+            show connection
+          </Button>
         </CardContent>
       )}
 
@@ -69,6 +233,36 @@ export const UserCard = ({
             <UserMinus className="w-4 h-4 mr-2" />
             unfriend
           </Button>
+        ) : requestStatus === 'incoming' ? (
+          <div className="flex w-full gap-2">
+            <Button
+              onClick={onAcceptRequest}
+              className="flex-1 bg-gradient-to-r from-primary to-accent hover:opacity-90 interactive-scale"
+              disabled={loading}
+            >
+              <Check className="w-4 h-4 mr-2" />
+              accept
+            </Button>
+            <Button
+              onClick={onDeclineRequest}
+              variant="outline"
+              className="flex-1 interactive-scale"
+              disabled={loading}
+            >
+              <X className="w-4 h-4 mr-2" />
+              decline
+            </Button>
+          </div>
+        ) : requestStatus === 'outgoing' ? (
+          <Button
+            onClick={onCancelRequest}
+            variant="outline"
+            className="w-full interactive-scale"
+            disabled={loading}
+          >
+            <Clock className="w-4 h-4 mr-2" />
+            requested · cancel
+          </Button>
         ) : (
           <Button
             onClick={onAddFriend}
@@ -80,6 +274,28 @@ export const UserCard = ({
           </Button>
         )}
       </CardFooter>
+
+      {onBlock && (
+        <AlertDialog open={confirmingBlock} onOpenChange={setConfirmingBlock}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>block {name}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                they won't be able to see you, find you or send you requests, and any friendship between you is removed. you can unblock them from settings.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={onBlock}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                block
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
     </Card>
   );
 };
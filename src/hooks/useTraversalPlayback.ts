@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useState } from 'react';
+
+// Playback over a precomputed list of steps. `position` is how many steps have played:
+// 0 shows nothing, steps.length shows everything. `durationOf` is a step's time on screen at 1×.
+export const useTraversalPlayback = <T>(steps: T[], durationOf: (step: T) => number) => {
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // Keep the playhead inside the list when the steps are rebuilt
+  useEffect(() => {
+    setPosition(prev => Math.min(prev, steps.length));
+  }, [steps]);
+
+  // Advance one step after the current one has had its time on screen
+  useEffect(() => {
+    if (!playing) return;
+
+    if (position >= steps.length) {
+      setPlaying(false);
+      return;
+    }
+
+    const current = position > 0 ? steps[position - 1] : null;
+    const timeout = setTimeout(
+      () => setPosition(prev => prev + 1),
+      (current ? durationOf(current) : 0) / speed
+    );
+    return () => clearTimeout(timeout);
+  }, [playing, position, steps, speed, durationOf]);
+
+  const seek = useCallback(
+    (next: number) => setPosition(Math.max(0, Math.min(steps.length, next))),
+    [steps.length]
+  );
+
+  const play = useCallback(() => {
+    // Pressing play at the end starts over
+    setPosition(prev => (prev >= steps.length ? 0 : prev));
+    setPlaying(true);
+  }, [steps.length]);
+
+  const pause = useCallback(() => setPlaying(false), []);
+
+  const restart = useCallback(() => {
+    setPosition(0);
+    setPlaying(true);
+  }, []);
+
+  const stop = useCallback(() => {
+    setPlaying(false);
+    setPosition(0);
+  }, []);
+
+  const stepForward = useCallback(() => {
+    setPlaying(false);
+    setPosition(prev => Math.min(steps.length, prev + 1));
+  }, [steps.length]);
+
+  const stepBack = useCallback(() => {
+    setPlaying(false);
+    setPosition(prev => Math.max(0, prev - 1));
+  }, []);
+
+  return {
+    position,
+    playing,
+    speed,
+    setSpeed,
+    seek,
+    play,
+    pause,
+    restart,
+    stop,
+    stepForward,
+    stepBack,
+  };
+};
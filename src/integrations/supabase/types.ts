@@ -14,6 +14,119 @@ export type Database = {
   }
   public: {
     Tables: {
+      blocks: {
+        Row: {
+          blocked_id: string
+          blocker_id: string
+          created_at: string
+          id: string
+        }
+        Insert: {
+          blocked_id: string
+          blocker_id: string
+          created_at?: string
+          id?: string
+        }
+        Update: {
+          blocked_id?: string
+          blocker_id?: string
+          created_at?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blocks_blocked_id_fkey"
+            columns: ["blocked_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "blocks_blocker_id_fkey"
+            columns: ["blocker_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      community_labels: {
+        Row: {
+          created_at: string
+          id: string
+          member_ids: string[]
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          member_ids?: string[]
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          member_ids?: string[]
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "community_labels_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      friend_requests: {
+        Row: {
+          created_at: string
+          id: string
+          recipient_id: string
+          responded_at: string | null
+          sender_id: string
+          status: Database["public"]["Enums"]["friend_request_status"]
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          recipient_id: string
+          responded_at?: string | null
+          sender_id: string
+          status?: Database["public"]["Enums"]["friend_request_status"]
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          recipient_id?: string
+          responded_at?: string | null
+          sender_id?: string
+          status?: Database["public"]["Enums"]["friend_request_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "friend_requests_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "friend_requests_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       friendships: {
         Row: {
           created_at: string
@@ -80,11 +193,144 @@ export type Database = {
         }
         Relationships: []
       }
+      profile_field_visibility: {
+        Row: {
+          field: string
+          updated_at: string
+          user_id: string
+          visibility: Database["public"]["Enums"]["profile_visibility"]
+        }
+        Insert: {
+          field: string
+          updated_at?: string
+          user_id: string
+          visibility: Database["public"]["Enums"]["profile_visibility"]
+        }
+        Update: {
+          field?: string
+          updated_at?: string
+          user_id?: string
+          visibility?: Database["public"]["Enums"]["profile_visibility"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profile_field_visibility_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      suggestion_dismissals: {
+        Row: {
+          created_at: string
+          dismissed_user_id: string
+          id: string
+          snoozed_until: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          dismissed_user_id: string
+          id?: string
+          snoozed_until?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          dismissed_user_id?: string
+          id?: string
+          snoozed_until?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "suggestion_dismissals_dismissed_user_id_fkey"
+            columns: ["dismissed_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "suggestion_dismissals_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      profile_directory: {
+        Row: {
+          avatar_url: string | null
+          bio: string | null
+          created_at: string | null
+          email: string | null
+          id: string | null
+          name: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      accept_friend_request: {
+        Args: { p_request_id: string }
+        Returns: {
+          created_at: string
+          id: string
+          recipient_id: string
+          responded_at: string | null
+          sender_id: string
+          status: Database["public"]["Enums"]["friend_request_status"]
+        }
+        SetofOptions: {
+          from: "*"
+          to: "friend_requests"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      can_view_profile_field: {
+        Args: { p_field: string; p_owner: string }
+        Returns: boolean
+      }
+      default_field_visibility: {
+        Args: { p_field: string }
+        Returns: Database["public"]["Enums"]["profile_visibility"]
+      }
+      get_connection_paths: {
+        Args: { p_max_depth?: number; p_max_paths?: number; p_target_id: string }
+        Returns: {
+          names: string[]
+          path: string[]
+        }[]
+      }
+      get_degrees_of_separation: {
+        Args: { p_max_depth?: number }
+        Returns: {
+          degree: number
+          user_id: string
+        }[]
+      }
+      get_friend_suggestions: {
+        Args: { p_limit?: number; p_offset?: number }
+        Returns: {
+          avatar_url: string
+          bio: string
+          created_at: string
+          email: string
+          id: string
+          mutual_friend_ids: string[]
+          mutual_friends: number
+          name: string
+          total_count: number
+          user_id: string
+        }[]
+      }
       get_network_friendships: {
         Args: { p_user_id: string }
         Returns: {
@@ -100,9 +346,40 @@ export type Database = {
           isSetofReturn: true
         }
       }
+      get_node_neighborhood: {
+        Args: { p_node_id: string }
+        Returns: {
+          created_at: string
+          friend_id: string
+          id: string
+          user_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "friendships"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      get_profile_summary: {
+        Args: { p_user_id: string }
+        Returns: {
+          friend_count: number
+          mutual_friend_ids: string[]
+        }[]
+      }
+      has_blocked: {
+        Args: { p_blocked_id: string; p_blocker_id: string }
+        Returns: boolean
+      }
+      is_blocked_between: {
+        Args: { p_user_a: string; p_user_b: string }
+        Returns: boolean
+      }
     }
     Enums: {
-      [_ in never]: never
+      friend_request_status: "pending" | "accepted" | "declined" | "cancelled"
+      profile_visibility: "public" | "friends" | "friends_of_friends" | "only_me"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -229,6 +506,9 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      friend_request_status: ["pending", "accepted", "declined", "cancelled"],
+      profile_visibility: ["public", "friends", "friends_of_friends", "only_me"],
+    },
   },
 } as const
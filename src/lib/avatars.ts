@@ -0,0 +1,32 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Profile photos live in the private 'avatars' bucket under <user_id>/<file>, and
+// profiles.avatar_url holds the object's path (older rows hold the bucket's old public URL).
+// Storage only signs a path for people allowed to see the owner's avatar_url, so photos
+// follow the same visibility setting as the rest of the profile.
+
+const BUCKET = 'avatars';
+const PUBLIC_URL_MARKER = `/${BUCKET}/`;
+// Seconds a signed link stays valid; reloading the page signs fresh ones
+const SIGNED_URL_TTL = 60 * 60;
+
+// Storage path for a stored avatar_url value
+export const avatarPath = (value: string) =>
+  value.includes(PUBLIC_URL_MARKER) ? value.slice(value.indexOf(PUBLIC_URL_MARKER) + PUBLIC_URL_MARKER.length) : value;
+
+// Swaps each row's stored avatar for a signed link. Photos the caller can't see (or that
+// fail to sign) are dropped, which shows the initials fallback instead.
+export const withSignedAvatars = async <T extends { avatar_url?: string | null }>(rows: T[]): Promise<T[]> => {
+  const paths = Array.from(new Set(rows.filter(row => row.avatar_url).map(row => avatarPath(row.avatar_url))));
+  if (paths.length === 0) return rows;
+
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrls(paths, SIGNED_URL_TTL);
+  if (error) {
+    console.error('Error signing avatar links:', error);
+  }
+
+  const signed = new Map((data || []).filter(item => !item.error).map(item => [item.path, item.signedUrl]));
+  return rows.map(row =>
+    row.avatar_url ? { ...row, avatar_url: signed.get(avatarPath(row.avatar_url)) ?? null } : row
+  );
+};
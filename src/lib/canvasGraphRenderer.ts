@@ -0,0 +1,307 @@
+import {
+  DIMMED_LINK_ALPHA,
+  DIMMED_NODE_ALPHA,
+  graphColors,
+  isDimmed,
+  touchesSelection,
+  type GraphNode,
+  type GraphScene,
+} from './graphScene';
+import { convexHull } from './communities';
+
+// Canvas2D renderer: the detailed look (glows, avatars, type labels) for small networks
+
+// How far community hulls reach past the nodes on their edge, in graph units
+const HULL_PADDING = 32;
+const HULL_ALPHA = 0.12;
+
+// Shaded hull behind each community. Stroking the hull with a wide round-joined line pads and
+// rounds it, which also gives one- and two-member hulls a sensible shape.
+const drawCommunityHulls = (context: CanvasRenderingContext2D, scene: GraphScene) => {
+  scene.communities.forEach(community => {
+    const points = scene.nodes.filter(node => community.nodeIds.has(node.id) && node.x !== undefined);
+    if (points.length === 0) return;
+    const hull = convexHull(points.map(node => ({ x: node.x, y: node.y })));
+
+    context.beginPath();
+    hull.forEach((point, index) => (index === 0 ? context.moveTo(point.x, point.y) : context.lineTo(point.x, point.y)));
+    context.closePath();
+    context.globalAlpha = HULL_ALPHA;
+    context.fillStyle = community.color;
+    context.strokeStyle = community.color;
+    context.lineWidth = HULL_PADDING * 2;
+    context.lineJoin = 'round';
+    context.lineCap = 'round';
+    context.fill();
+    context.stroke();
+    context.globalAlpha = 1;
+
+    if (community.name) {
+      const top = hull.reduce((best, point) => (point.y < best.y ? point : best), hull[0]);
+      context.fillStyle = community.color;
+      context.font = 'bold 14px sans-serif';
+      context.textAlign = 'center';
+      context.textBaseline = 'bottom';
+      context.fillText(community.name, top.x, top.y - HULL_PADDING - 4);
+    }
+  });
+};
+
+const drawLinks = (context: CanvasRenderingContext2D, scene: GraphScene) => {
+  const { focus, highlightLinks, pathLinks } = scene;
+
+  scene.links.forEach(link => {
+    const source = link.source as GraphNode;
+    const target = link.target as GraphNode;
+    const linkKey1 = `${source.id}-${target.id}`;
+    const linkKey2 = `${target.id}-${source.id}`;
+    const isHighlighted = highlightLinks.has(linkKey1) || highlightLinks.has(linkKey2);
+    const isOnPath = pathLinks.has(linkKey1);
+    context.globalAlpha = focus.selectedId && !touchesSelection(focus, link) ? DIMMED_LINK_ALPHA : 1;
+
+    context.beginPath();
+    context.moveTo(source.x, source.y);
+    context.lineTo(target.x, target.y);
+
+    if (isOnPath) {
+      // Edges along a spotlighted path
+      context.strokeStyle = graphColors.path;
+      context.lineWidth = 5;
+      context.shadowBlur = 25;
+      context.shadowColor = graphColors.path;
+    } else if (isHighlighted) {
+      // Highlighted edges during animation
+      context.strokeStyle = graphColors.highlight;
+      context.lineWidth = 5;
+      context.shadowBlur = 25;
+      context.shadowColor = graphColors.highlight;
+    } else {
+      // Normal edges - make them clearly visible
+      context.strokeStyle = graphColors.edge;
+      context.lineWidth = 3;
+      context.shadowBlur = 8;
+      context.shadowColor = graphColors.edgeGlow;
+    }
+
+    context.stroke();
+    context.shadowBlur = 0;
+    context.globalAlpha = 1;
+  });
+};
+
+const drawNodes = (
+  context: CanvasRenderingContext2D,
+  scene: GraphScene,
+  getAvatarImage: (url: string) => HTMLImageElement | null
+) => {
+  const { focus, highlightNodes, pathNodes, frontierNodes, activeNodeId } = scene;
+
+  scene.nodes.forEach(node => {
+    const isHighlighted = highlightNodes.has(node.id);
+    const isOnPath = pathNodes.has(node.id);
+    context.globalAlpha = isDimmed(focus, node.id) ? DIMMED_NODE_ALPHA : 1;
+
+    // Ring around the selected or hovered node
+    if (node.id === focus.selectedId || node.id === focus.hoveredId) {
+      context.beginPath();
+      context.arc(node.x, node.y, node.size + 4, 0, 2 * Math.PI);
+      context.strokeStyle = node.id === focus.selectedId ? '#FFF' : 'rgba(255, 255, 255, 0.6)';
+      context.lineWidth = 2;
+      context.stroke();
+    }
+
+    // Ring around nodes along a spotlighted path
+    if (isOnPath) {
+      context.beginPath();
+      context.arc(node.x, node.y, node.size + 6, 0, 2 * Math.PI);
+      context.strokeStyle = graphColors.path;
+      context.lineWidth = 3;
+      context.shadowBlur = 20;
+      context.shadowColor = graphColors.path;
+      context.stroke();
+      context.shadowBlur = 0;
+    }
+
+    // Dashed ring around nodes waiting in the explorer's queue or stack
+    if (frontierNodes.has(node.id)) {
+      context.beginPath();
+      context.arc(node.x, node.y, node.size + 4, 0, 2 * Math.PI);
+      context.strokeStyle = graphColors.frontier;
+      context.lineWidth = 2;
+      context.setLineDash([4, 3]);
+      context.stroke();
+      context.setLineDash([]);
+    }
+
+    // Wide ring around the node the explorer is expanding
+    if (node.id === activeNodeId) {
+      context.beginPath();
+      context.arc(node.x, node.y, node.size + 9, 0, 2 * Math.PI);
+      context.strokeStyle = '#FFF';
+      context.lineWidth = 3;
+      context.shadowBlur = 20;
+      context.shadowColor = '#FFF';
+      context.stroke();
+      context.shadowBlur = 0;
+    }
+
+    // Outer glow for highlighted nodes
+    if (isHighlighted) {
+      context.beginPath();
+      context.arc(node.x, node.y, node.size + 6, 0, 2 * Math.PI);
+      context.fillStyle = graphColors.highlightGlow;
+      context.fill();
+    }
+
+    // Main node
+    context.beginPath();
+    context.arc(node.x, node.y, node.size, 0, 2 * Math.PI);
+    context.fillStyle = isHighlighted ? graphColors.highlight : node.color;
+
+    if (isHighlighted) {
+      context.shadowBlur = 25;
+      context.shadowColor = graphColors.highlight;
+    } else {
+      context.shadowBlur = 5;
+      context.shadowColor = node.color;
+    }
+
+    context.fill();
+
+    // Profile photo clipped into the node, keeping the colored border around it
+    const avatar = node.avatarUrl && !isHighlighted ? getAvatarImage(node.avatarUrl) : null;
+    if (avatar) {
+      context.save();
+      context.clip();
+      context.shadowBlur = 0;
+      context.drawImage(avatar, node.x - node.size, node.y - node.size, node.size * 2, node.size * 2);
+      context.restore();
+      context.beginPath();
+      context.arc(node.x, node.y, node.size, 0, 2 * Math.PI);
+    }
+
+    // Node border
+    context.strokeStyle = isHighlighted ? '#FFF' : graphColors.border;
+    context.lineWidth = isHighlighted ? 3 : 2;
+    context.stroke();
+
+    // Draw type indicator for mutual friends
+    if (node.type === 'mutual' && !isHighlighted) {
+      context.shadowBlur = 0;
+      context.fillStyle = graphColors.mutual;
+      context.beginPath();
+      context.arc(node.x + node.size * 0.6, node.y - node.size * 0.6, 4, 0, 2 * Math.PI);
+      context.fill();
+    }
+
+    drawNodeLabel(context, node, isHighlighted);
+    context.globalAlpha = 1;
+  });
+};
+
+const drawNodeLabel = (context: CanvasRenderingContext2D, node: GraphNode, isHighlighted: boolean) => {
+  context.shadowBlur = 0;
+  context.fillStyle = isHighlighted ? '#FFF' : graphColors.label;
+  context.font = isHighlighted ? 'bold 13px sans-serif' : '12px sans-serif';
+  context.textAlign = 'center';
+  context.textBaseline = 'top';
+  context.fillText(node.name, node.x, node.y + node.size + 8);
+
+  // Draw type label
+  if (node.type === 'mutual') {
+    context.fillStyle = graphColors.mutualLabel;
+    context.font = '10px sans-serif';
+    context.fillText('mutual', node.x, node.y + node.size + 23);
+  } else if (node.type === 'suggestion') {
+    context.fillStyle = graphColors.suggestionLabel;
+    context.font = '10px sans-serif';
+    context.fillText('suggested', node.x, node.y + node.size + 23);
+  }
+};
+
+export const drawCanvasGraph = (
+  context: CanvasRenderingContext2D,
+  scene: GraphScene,
+  getAvatarImage: (url: string) => HTMLImageElement | null
+) => {
+  const { camera, width, height } = scene;
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  context.clearRect(0, 0, width, height);
+  context.save();
+  context.setTransform(camera.k, 0, 0, camera.k, camera.x, camera.y);
+
+  drawCommunityHulls(context, scene);
+  drawLinks(context, scene);
+  drawNodes(context, scene, getAvatarImage);
+
+  context.restore();
+};
+
+// Most labels drawn over the WebGL layer in one frame; text is the expensive part
+const MAX_OVERLAY_LABELS = 150;
+// Skip labels for nodes smaller than this many screen pixels
+const MIN_LABELLED_RADIUS = 6;
+
+// Community hulls only, for a canvas stacked under the WebGL renderer, which only draws
+// nodes and edges
+export const drawCanvasHulls = (context: CanvasRenderingContext2D, scene: GraphScene) => {
+  const { camera, width, height } = scene;
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  context.clearRect(0, 0, width, height);
+  context.save();
+  context.setTransform(camera.k, 0, 0, camera.k, camera.x, camera.y);
+  drawCommunityHulls(context, scene);
+  context.restore();
+};
+
+// Labels only, for drawing over the WebGL renderer. Culls anything off-screen or too small to
+// read, and always keeps labels for highlighted, spotlighted, hovered and selected nodes.
+export const drawCanvasLabels = (context: CanvasRenderingContext2D, scene: GraphScene) => {
+  const { camera, width, height, focus, highlightNodes, pathNodes, activeNodeId } = scene;
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  context.clearRect(0, 0, width, height);
+
+  const isImportant = (node: GraphNode) =>
+    node.type === 'current' ||
+    node.id === focus.selectedId ||
+    node.id === focus.hoveredId ||
+    node.id === activeNodeId ||
+    highlightNodes.has(node.id) ||
+    pathNodes.has(node.id);
+
+  const candidates = scene.nodes.filter(node => {
+    const sx = node.x * camera.k + camera.x;
+    const sy = node.y * camera.k + camera.y;
+    if (sx < -100 || sx > width + 100 || sy < -40 || sy > height + 40) return false;
+    if (isDimmed(focus, node.id)) return false;
+    return isImportant(node) || node.size * camera.k >= MIN_LABELLED_RADIUS;
+  });
+
+  const labelled = candidates
+    .sort((a, b) => Number(isImportant(b)) - Number(isImportant(a)) || b.size - a.size)
+    .slice(0, MAX_OVERLAY_LABELS);
+
+  context.save();
+  context.setTransform(camera.k, 0, 0, camera.k, camera.x, camera.y);
+  labelled.forEach(node => drawNodeLabel(context, node, highlightNodes.has(node.id)));
+  context.restore();
+};
+
+// Expanding ring over a node that search just jumped to; `t` runs from 0 to 1
+export const drawCanvasPulse = (context: CanvasRenderingContext2D, scene: GraphScene, node: GraphNode, t: number) => {
+  if (node.x === undefined) return;
+  const { camera } = scene;
+
+  context.save();
+  context.setTransform(camera.k, 0, 0, camera.k, camera.x, camera.y);
+  // Two rings, half a cycle apart
+  [t, (t + 0.5) % 1].forEach(phase => {
+    context.beginPath();
+    context.arc(node.x, node.y, node.size + 4 + phase * 36, 0, 2 * Math.PI);
+    context.strokeStyle = graphColors.path;
+    context.globalAlpha = 1 - phase;
+    context.lineWidth = 3;
+    context.stroke();
+  });
+  context.restore();
+};
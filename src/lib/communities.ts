@@ -0,0 +1,144 @@
+import type { Adjacency } from './suggestionScorers';
+
+// Community detection over the loaded network by label propagation: every node repeatedly
+// adopts the label most common among its neighbours until nothing changes.
+
+const MAX_ITERATIONS = 20;
+
+// Community index per node id. Communities are numbered by size, largest first, and
+// isolated nodes end up in a community of their own.
+export const detectCommunities = (nodeIds: string[], adjacency: Adjacency): Map<string, number> => {
+  const labels = new Map(nodeIds.map(id => [id, id]));
+  // A fixed visiting order keeps the result stable between renders
+  const order = [...nodeIds].sort();
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let changed = false;
+
+    order.forEach(id => {
+      const counts = new Map<string, number>();
+      (adjacency.get(id) ?? new Set<string>()).forEach(neighbor => {
+        const label = labels.get(neighbor);
+        if (label !== undefined) counts.set(label, (counts.get(label) ?? 0) + 1);
+      });
+      if (counts.size === 0) return;
+
+      // Most frequent neighbour label, ties going to the smallest label
+      let best = labels.get(id);
+      let bestCount = counts.get(best) ?? 0;
+      counts.forEach((count, label) => {
+        if (count > bestCount || (count === bestCount && label < best)) {
+          best = label;
+          bestCount = count;
+        }
+      });
+
+      if (best !== labels.get(id)) {
+        labels.set(id, best);
+        changed = true;
+      }
+    });
+
+    if (!changed) break;
+  }
+
+  const sizes = new Map<string, number>();
+  labels.forEach(label => sizes.set(label, (sizes.get(label) ?? 0) + 1));
+  const ranked = Array.from(sizes.keys()).sort((a, b) => sizes.get(b) - sizes.get(a) || a.localeCompare(b));
+  const indexByLabel = new Map(ranked.map((label, index) => [label, index]));
+
+  return new Map(nodeIds.map(id => [id, indexByLabel.get(labels.get(id))]));
+};
+
+// Colors for communities by index; past the end they repeat
+export const communityPalette = [
+  '#F472B6',
+  '#34D399',
+  '#60A5FA',
+  '#FBBF24',
+  '#A78BFA',
+  '#F87171',
+  '#2DD4BF',
+  '#FB923C',
+  '#A3E635',
+  '#E879F9',
+];
+
+export const communityColor = (index: number) => communityPalette[index % communityPalette.length];
+
+// Member ids per community index, leaving out communities smaller than `minSize`
+export const communityGroups = (communities: Map<string, number>, minSize = 2) => {
+  const groups = new Map<number, string[]>();
+  communities.forEach((index, id) => {
+    if (!groups.has(index)) groups.set(index, []);
+    groups.get(index)!.push(id);
+  });
+  groups.forEach((members, index) => {
+    if (members.length < minSize) groups.delete(index);
+  });
+  return groups;
+};
+
+export interface CommunityLabel {
+  id: string;
+  name: string;
+  member_ids: string[];
+}
+
+// Stored names only count for a detected community if at least this share of the two
+// member lists overlap (Jaccard similarity)
+const MIN_LABEL_OVERLAP = 0.5;
+
+const overlap = (a: string[], b: string[]) => {
+  const setA = new Set(a);
+  const shared = b.filter(id => setA.has(id)).length;
+  const union = setA.size + b.length - shared;
+  return union === 0 ? 0 : shared / union;
+};
+
+// The stored label for each detected community, pairing the closest matches first so a
+// label is used at most once
+export const matchCommunityLabels = (groups: Map<number, string[]>, labels: CommunityLabel[]) => {
+  const candidates: Array<{ index: number; label: CommunityLabel; score: number }> = [];
+  groups.forEach((members, index) => {
+    labels.forEach(label => {
+      const score = overlap(members, label.member_ids);
+      if (score >= MIN_LABEL_OVERLAP) candidates.push({ index, label, score });
+    });
+  });
+
+  const matched = new Map<number, CommunityLabel>();
+  const used = new Set<string>();
+  candidates
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ index, label }) => {
+      if (matched.has(index) || used.has(label.id)) return;
+      matched.set(index, label);
+      used.add(label.id);
+    });
+  return matched;
+};
+
+type Point = { x: number; y: number };
+
+const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+// Convex hull by Andrew's monotone chain, counter-clockwise. One or two points come back as-is.
+export const convexHull = (points: Point[]): Point[] => {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) return sorted;
+
+  const lower: Point[] = [];
+  sorted.forEach(point => {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) lower.pop();
+    lower.push(point);
+  });
+
+  const upper: Point[] = [];
+  [...sorted].reverse().forEach(point => {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) upper.pop();
+    upper.push(point);
+  });
+
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+};
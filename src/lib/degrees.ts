@@ -0,0 +1,20 @@
+// Buckets for hop distance from the current user, as returned by get_degrees_of_separation.
+// A null degree means the person isn't reachable within the search depth.
+
+export type DegreeBucket = '1' | '2' | '3' | '3+' | 'none';
+
+export const degreeBuckets: DegreeBucket[] = ['1', '2', '3', '3+', 'none'];
+
+export const degreeLabels: Record<DegreeBucket, string> = {
+  '1': '1st',
+  '2': '2nd',
+  '3': '3rd',
+  '3+': '3+',
+  none: 'not connected',
+};
+
+export const degreeBucket = (degree: number | null): DegreeBucket => {
+  if (degree === null) return 'none';
+  if (degree > 3) return '3+';
+  return String(degree) as DegreeBucket;
+};
@@ -0,0 +1,81 @@
+// Main-thread handle for the d3-force layout running in forceLayout.worker.ts.
+// Nodes are addressed by their index in the array passed to createForceLayout; positions
+// stream back as an interleaved [x0, y0, x1, y1, ...] Float32Array whose buffer is transferred.
+
+export type ForceLayoutRequest =
+  | {
+      type: 'init';
+      // Interleaved starting positions; NaN lets d3 pick one
+      positions: Float32Array;
+      // Interleaved [source, target] node indices
+      links: Int32Array;
+      width: number;
+      height: number;
+    }
+  | { type: 'pin'; index: number; x: number; y: number }
+  | { type: 'release'; index: number }
+  | { type: 'stop' };
+
+export type ForceLayoutResponse =
+  | { type: 'tick'; positions: Float32Array }
+  | { type: 'end' };
+
+export interface ForceLayoutOptions {
+  nodes: Array<{ x?: number; y?: number }>;
+  links: Array<[number, number]>;
+  width: number;
+  height: number;
+  // Called with the newest positions; the array is owned by the caller from then on
+  onTick: (positions: Float32Array) => void;
+  // Called each time the simulation cools down
+  onEnd?: () => void;
+}
+
+export interface ForceLayout {
+  // Hold a node at (x, y) while it's dragged, reheating the layout around it
+  pin: (index: number, x: number, y: number) => void;
+  release: (index: number) => void;
+  dispose: () => void;
+}
+
+export const createForceLayout = ({ nodes, links, width, height, onTick, onEnd }: ForceLayoutOptions): ForceLayout => {
+  const worker = new Worker(new URL('./forceLayout.worker.ts', import.meta.url), { type: 'module' });
+
+  worker.onmessage = (event: MessageEvent<ForceLayoutResponse>) => {
+    if (event.data.type === 'tick') {
+      onTick(event.data.positions);
+    } else if (event.data.type === 'end') {
+      onEnd?.();
+    }
+  };
+
+  const positions = new Float32Array(nodes.length * 2);
+  nodes.forEach((node, index) => {
+    positions[index * 2] = node.x ?? NaN;
+    positions[index * 2 + 1] = node.y ?? NaN;
+  });
+
+  const linkIndices = new Int32Array(links.length * 2);
+  links.forEach(([source, target], index) => {
+    linkIndices[index * 2] = source;
+    linkIndices[index * 2 + 1] = target;
+  });
+
+  const post = (message: ForceLayoutRequest, transfer: Transferable[] = []) => {
+    worker.postMessage(message, transfer);
+  };
+
+  post(
+    { type: 'init', positions, links: linkIndices, width, height },
+    [positions.buffer, linkIndices.buffer]
+  );
+
+  return {
+    pin: (index, x, y) => post({ type: 'pin', index, x, y }),
+    release: index => post({ type: 'release', index }),
+    dispose: () => {
+      post({ type: 'stop' });
+      worker.terminate();
+    },
+  };
+};
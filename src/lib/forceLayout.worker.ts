@@ -0,0 +1,94 @@
+import * as d3 from 'd3-force';
+import type { ForceLayoutRequest, ForceLayoutResponse } from './forceLayout';
+
+// Runs the network graph's force simulation off the main thread. See forceLayout.ts for the protocol.
+
+interface LayoutNode {
+  index: number;
+  x?: number;
+  y?: number;
+  vx?: number;
+  vy?: number;
+  fx?: number | null;
+  fy?: number | null;
+}
+
+const ctx = self as unknown as Worker;
+
+let simulation: ReturnType<typeof d3.forceSimulation> | null = null;
+let nodes: LayoutNode[] = [];
+
+const post = (message: ForceLayoutResponse, transfer: Transferable[] = []) => {
+  ctx.postMessage(message, transfer);
+};
+
+// A fresh buffer per tick so it can be transferred instead of copied
+const sendPositions = () => {
+  const positions = new Float32Array(nodes.length * 2);
+  nodes.forEach((node, index) => {
+    positions[index * 2] = node.x;
+    positions[index * 2 + 1] = node.y;
+  });
+  post({ type: 'tick', positions }, [positions.buffer]);
+};
+
+const init = (message: Extract<ForceLayoutRequest, { type: 'init' }>) => {
+  simulation?.stop();
+
+  const { positions, width, height } = message;
+  nodes = Array.from({ length: positions.length / 2 }, (_, index) => {
+    const x = positions[index * 2];
+    const y = positions[index * 2 + 1];
+    return Number.isNaN(x) || Number.isNaN(y) ? { index } : { index, x, y };
+  });
+
+  const links: Array<{ source: number; target: number }> = [];
+  for (let i = 0; i < message.links.length; i += 2) {
+    links.push({ source: message.links[i], target: message.links[i + 1] });
+  }
+
+  // Nodes we already had positions for are placed, so start cooler to keep the picture stable
+  const placed = nodes.filter(node => node.x !== undefined).length;
+  const alpha = placed === nodes.length && nodes.length > 0 ? 0.3 : 1;
+
+  simulation = d3.forceSimulation(nodes)
+    .alpha(alpha)
+    .force('link', d3.forceLink(links).distance(120).strength(0.5))
+    .force('charge', d3.forceManyBody().strength(-400))
+    .force('center', d3.forceCenter(width / 2, height / 2))
+    .force('collision', d3.forceCollide().radius(35))
+    .force('x', d3.forceX(width / 2).strength(0.1))
+    .force('y', d3.forceY(height / 2).strength(0.1))
+    .on('tick', sendPositions)
+    .on('end', () => post({ type: 'end' }));
+};
+
+ctx.onmessage = (event: MessageEvent<ForceLayoutRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init':
+      init(message);
+      break;
+    case 'pin': {
+      const node = nodes[message.index];
+      if (!node || !simulation) return;
+      node.fx = message.x;
+      node.fy = message.y;
+      simulation.alphaTarget(0.3).restart();
+      break;
+    }
+    case 'release': {
+      const node = nodes[message.index];
+      if (!node || !simulation) return;
+      node.fx = null;
+      node.fy = null;
+      simulation.alphaTarget(0);
+      break;
+    }
+    case 'stop':
+      simulation?.stop();
+      simulation = null;
+      break;
+  }
+};
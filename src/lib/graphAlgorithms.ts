@@ -0,0 +1,454 @@
+import type { Adjacency } from './suggestionScorers';
+
+// Step-by-step graph algorithms for the explorer panel. Each algorithm is a generator that
+// yields a full snapshot after every move, so playback can seek to any step without replaying.
+
+export type AlgorithmId = 'bfs' | 'dfs' | 'bidirectional-bfs' | 'dijkstra' | 'random-walk';
+
+export interface AlgorithmInfo {
+  id: AlgorithmId;
+  label: string;
+  description: string;
+  // The algorithm can't run without a target
+  needsTarget: boolean;
+  // Playback time per step at 1× speed, in ms
+  stepDuration: number;
+}
+
+// A labelled queue/stack/priority list shown in the inspector, front first
+export interface AlgorithmContainer {
+  label: string;
+  items: Array<{ id: string; detail?: string }>;
+}
+
+export interface AlgorithmStep {
+  message: string;
+  // Node being expanded this step
+  current: string | null;
+  visited: string[];
+  frontier: string[];
+  // Edges the search has travelled along so far
+  treeEdges: Array<[string, string]>;
+  // Result path once the target is reached
+  path: string[] | null;
+  containers: AlgorithmContainer[];
+}
+
+export interface AlgorithmInput {
+  adjacency: Adjacency;
+  source: string;
+  target: string | null;
+  nameOf: (id: string) => string;
+}
+
+export const algorithms: Record<AlgorithmId, AlgorithmInfo> = {
+  bfs: {
+    id: 'bfs',
+    label: 'breadth-first',
+    description: 'layer by layer, nearest people first',
+    needsTarget: false,
+    stepDuration: 500,
+  },
+  dfs: {
+    id: 'dfs',
+    label: 'depth-first',
+    description: 'follows one chain as far as it goes before backtracking',
+    needsTarget: false,
+    stepDuration: 500,
+  },
+  'bidirectional-bfs': {
+    id: 'bidirectional-bfs',
+    label: 'bidirectional bfs',
+    description: 'searches from both ends until the frontiers meet',
+    needsTarget: true,
+    stepDuration: 600,
+  },
+  dijkstra: {
+    id: 'dijkstra',
+    label: 'dijkstra',
+    description: 'shortest path where ties with more shared friends are shorter',
+    needsTarget: false,
+    stepDuration: 500,
+  },
+  'random-walk': {
+    id: 'random-walk',
+    label: 'personalized random walk',
+    description: 'wanders the network, jumping home 15% of the time',
+    needsTarget: false,
+    stepDuration: 120,
+  },
+};
+
+// Longest trace we keep; the walk and large networks would otherwise produce thousands of snapshots
+const MAX_STEPS = 1500;
+const WALK_LENGTH = 300;
+const RESTART_PROBABILITY = 0.15;
+
+const neighbors = (adjacency: Adjacency, id: string) => Array.from(adjacency.get(id) ?? []);
+
+// Follows parent links back from `id` to the root
+const pathTo = (parents: Map<string, string | null>, id: string) => {
+  const path: string[] = [];
+  for (let node: string | null = id; node !== null && node !== undefined; node = parents.get(node) ?? null) {
+    path.unshift(node);
+  }
+  return path;
+};
+
+function* breadthFirst({ adjacency, source, target, nameOf }: AlgorithmInput): Generator<AlgorithmStep> {
+  const parents = new Map<string, string | null>([[source, null]]);
+  const depth = new Map([[source, 0]]);
+  const visited: string[] = [];
+  const treeEdges: Array<[string, string]> = [];
+  const queue = [source];
+
+  const snapshot = (message: string, current: string | null, path: string[] | null = null): AlgorithmStep => ({
+    message,
+    current,
+    visited: [...visited],
+    frontier: [...queue],
+    treeEdges: [...treeEdges],
+    path,
+    containers: [
+      { label: 'queue', items: queue.map(id => ({ id, detail: `hop ${depth.get(id)}` })) },
+    ],
+  });
+
+  yield snapshot(`start at ${nameOf(source)}`, null);
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    visited.push(id);
+
+    if (id === target) {
+      yield snapshot(`reached ${nameOf(id)} at hop ${depth.get(id)}`, id, pathTo(parents, id));
+      return;
+    }
+
+    let queued = 0;
+    neighbors(adjacency, id).forEach(next => {
+      if (parents.has(next)) return;
+      parents.set(next, id);
+      depth.set(next, depth.get(id) + 1);
+      treeEdges.push([id, next]);
+      queue.push(next);
+      queued += 1;
+    });
+
+    yield snapshot(`visit ${nameOf(id)} (hop ${depth.get(id)}), queued ${queued} new`, id);
+  }
+
+  yield snapshot(target ? `${nameOf(target)} isn't reachable` : `done · ${visited.length} people reached`, null);
+}
+
+function* depthFirst({ adjacency, source, target, nameOf }: AlgorithmInput): Generator<AlgorithmStep> {
+  const parents = new Map<string, string | null>([[source, null]]);
+  const seen = new Set<string>();
+  const visited: string[] = [];
+  const treeEdges: Array<[string, string]> = [];
+  const stack = [source];
+
+  const snapshot = (message: string, current: string | null, path: string[] | null = null): AlgorithmStep => ({
+    message,
+    current,
+    visited: [...visited],
+    frontier: [...stack],
+    treeEdges: [...treeEdges],
+    path,
+    // Top of the stack first
+    containers: [{ label: 'stack', items: [...stack].reverse().map(id => ({ id })) }],
+  });
+
+  yield snapshot(`start at ${nameOf(source)}`, null);
+
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    visited.push(id);
+
+    const parent = parents.get(id);
+    if (parent) treeEdges.push([parent, id]);
+
+    if (id === target) {
+      yield snapshot(`reached ${nameOf(id)}`, id, pathTo(parents, id));
+      return;
+    }
+
+    // Push in reverse so the first neighbour is explored first
+    const unseen = neighbors(adjacency, id).filter(next => !seen.has(next));
+    unseen.reverse().forEach(next => {
+      parents.set(next, id);
+      stack.push(next);
+    });
+
+    yield snapshot(`visit ${nameOf(id)}, pushed ${unseen.length}`, id);
+  }
+
+  yield snapshot(target ? `${nameOf(target)} isn't reachable` : `done · ${visited.length} people reached`, null);
+}
+
+function* bidirectionalBreadthFirst({ adjacency, source, target, nameOf }: AlgorithmInput): Generator<AlgorithmStep> {
+  const empty = (message: string): AlgorithmStep => ({
+    message,
+    current: null,
+    visited: [],
+    frontier: [],
+    treeEdges: [],
+    path: null,
+    containers: [],
+  });
+
+  if (!target) {
+    yield empty('pick a target to search towards');
+    return;
+  }
+  if (target === source) {
+    yield { ...empty('source and target are the same person'), path: [source] };
+    return;
+  }
+
+  const sides = [
+    {
+      label: 'from source',
+      parents: new Map<string, string | null>([[source, null]]),
+      depth: new Map([[source, 0]]),
+      queue: [source],
+    },
+    {
+      label: 'from target',
+      parents: new Map<string, string | null>([[target, null]]),
+      depth: new Map([[target, 0]]),
+      queue: [target],
+    },
+  ];
+  const visited: string[] = [];
+  const treeEdges: Array<[string, string]> = [];
+
+  const snapshot = (message: string, current: string | null, path: string[] | null = null): AlgorithmStep => ({
+    message,
+    current,
+    visited: [...visited],
+    frontier: [...sides[0].queue, ...sides[1].queue],
+    treeEdges: [...treeEdges],
+    path,
+    containers: sides.map(side => ({ label: side.label, items: side.queue.map(id => ({ id })) })),
+  });
+
+  yield snapshot(`start at ${nameOf(source)} and ${nameOf(target)}`, null);
+
+  while (sides[0].queue.length > 0 && sides[1].queue.length > 0) {
+    // Expand the smaller frontier, which keeps the two searches balanced. A whole level goes
+    // at once: the first meeting found isn't always on a shortest path, but the best one
+    // across the level is.
+    const sideIndex = sides[0].queue.length <= sides[1].queue.length ? 0 : 1;
+    const side = sides[sideIndex];
+    const other = sides[1 - sideIndex];
+    let meeting: { id: string; hops: number } | null = null;
+
+    for (let remaining = side.queue.length; remaining > 0; remaining--) {
+      const id = side.queue.shift()!;
+      visited.push(id);
+
+      for (const next of neighbors(adjacency, id)) {
+        if (side.parents.has(next)) continue;
+        side.parents.set(next, id);
+        side.depth.set(next, side.depth.get(id) + 1);
+        treeEdges.push([id, next]);
+
+        if (other.parents.has(next)) {
+          const hops = side.depth.get(next) + other.depth.get(next);
+          if (!meeting || hops < meeting.hops) meeting = { id: next, hops };
+          continue;
+        }
+        side.queue.push(next);
+      }
+
+      yield snapshot(`expand ${nameOf(id)} ${side.label}`, id);
+    }
+
+    if (meeting) {
+      const fromSource = pathTo(sides[0].parents, meeting.id);
+      const fromTarget = pathTo(sides[1].parents, meeting.id).reverse();
+      const path = [...fromSource, ...fromTarget.slice(1)];
+      yield snapshot(`frontiers meet at ${nameOf(meeting.id)} · ${path.length - 1} hops`, null, path);
+      return;
+    }
+  }
+
+  yield snapshot(`${nameOf(target)} isn't reachable`, null);
+}
+
+// Edge length for Dijkstra: ties backed by more shared friends count as shorter
+export const tieLength = (adjacency: Adjacency, a: string, b: string) => {
+  const bNeighbors = adjacency.get(b) ?? new Set<string>();
+  const shared = neighbors(adjacency, a).filter(id => bNeighbors.has(id)).length;
+  return 1 / (1 + shared);
+};
+
+function* dijkstra({ adjacency, source, target, nameOf }: AlgorithmInput): Generator<AlgorithmStep> {
+  const distances = new Map([[source, 0]]);
+  const parents = new Map<string, string | null>([[source, null]]);
+  const settled = new Set<string>();
+  const visited: string[] = [];
+  const treeEdges: Array<[string, string]> = [];
+  // Small ego networks, so a sorted array is plenty for the priority queue
+  let queue = [source];
+
+  const snapshot = (message: string, current: string | null, path: string[] | null = null): AlgorithmStep => ({
+    message,
+    current,
+    visited: [...visited],
+    frontier: [...queue],
+    treeEdges: [...treeEdges],
+    path,
+    containers: [
+      {
+        label: 'priority queue',
+        items: queue.map(id => ({ id, detail: distances.get(id).toFixed(2) })),
+      },
+    ],
+  });
+
+  yield snapshot(`start at ${nameOf(source)}`, null);
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    settled.add(id);
+    visited.push(id);
+
+    const parent = parents.get(id);
+    if (parent) treeEdges.push([parent, id]);
+
+    if (id === target) {
+      yield snapshot(`reached ${nameOf(id)} at distance ${distances.get(id).toFixed(2)}`, id, pathTo(parents, id));
+      return;
+    }
+
+    let relaxed = 0;
+    neighbors(adjacency, id).forEach(next => {
+      if (settled.has(next)) return;
+      const distance = distances.get(id) + tieLength(adjacency, id, next);
+      if (distance < (distances.get(next) ?? Infinity)) {
+        distances.set(next, distance);
+        parents.set(next, id);
+        relaxed += 1;
+      }
+    });
+
+    queue = Array.from(distances.keys())
+      .filter(other => !settled.has(other))
+      .sort((a, b) => distances.get(a) - distances.get(b));
+
+    yield snapshot(`settle ${nameOf(id)} at ${distances.get(id).toFixed(2)}, relaxed ${relaxed}`, id);
+  }
+
+  yield snapshot(target ? `${nameOf(target)} isn't reachable` : `done · ${visited.length} people settled`, null);
+}
+
+// Deterministic PRNG so a walk replays identically when scrubbing back and forth
+const seededRandom = (seed: string) => {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(state, 31) + seed.charCodeAt(i)) | 0;
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+function* randomWalk({ adjacency, source, nameOf }: AlgorithmInput): Generator<AlgorithmStep> {
+  const random = seededRandom(source);
+  const visits = new Map([[source, 1]]);
+  const treeEdges: Array<[string, string]> = [];
+  const seenEdges = new Set<string>();
+  let position = source;
+
+  const snapshot = (message: string): AlgorithmStep => {
+    const ranked = Array.from(visits.entries())
+      .filter(([id]) => id !== source)
+      .sort((a, b) => b[1] - a[1]);
+    return {
+      message,
+      current: position,
+      visited: Array.from(visits.keys()),
+      frontier: neighbors(adjacency, position),
+      treeEdges: [...treeEdges],
+      path: null,
+      containers: [
+        {
+          label: 'most visited',
+          items: ranked.slice(0, 10).map(([id, count]) => ({ id, detail: `${count}×` })),
+        },
+      ],
+    };
+  };
+
+  yield snapshot(`start at ${nameOf(source)}`);
+
+  for (let step = 1; step <= WALK_LENGTH; step++) {
+    const options = neighbors(adjacency, position);
+    let message: string;
+
+    if (position !== source && (options.length === 0 || random() < RESTART_PROBABILITY)) {
+      position = source;
+      message = `jump home to ${nameOf(source)}`;
+    } else if (options.length === 0) {
+      yield snapshot(`${nameOf(source)} has no connections to walk`);
+      return;
+    } else {
+      const next = options[Math.floor(random() * options.length)];
+      const key = [position, next].sort().join('-');
+      if (!seenEdges.has(key)) {
+        seenEdges.add(key);
+        treeEdges.push([position, next]);
+      }
+      position = next;
+      message = `step ${step}: walk to ${nameOf(next)}`;
+    }
+
+    visits.set(position, (visits.get(position) ?? 0) + 1);
+    yield snapshot(message);
+  }
+}
+
+const generators: Record<AlgorithmId, (input: AlgorithmInput) => Generator<AlgorithmStep>> = {
+  bfs: breadthFirst,
+  dfs: depthFirst,
+  'bidirectional-bfs': bidirectionalBreadthFirst,
+  dijkstra,
+  'random-walk': randomWalk,
+};
+
+// Runs an algorithm to completion (or MAX_STEPS) and returns every snapshot
+export const runAlgorithm = (id: AlgorithmId, input: AlgorithmInput): AlgorithmStep[] => {
+  const steps: AlgorithmStep[] = [];
+  for (const step of generators[id](input)) {
+    steps.push(step);
+    if (steps.length >= MAX_STEPS) break;
+  }
+  return steps;
+};
+
+// Lingers on the step that finds a path so the result registers
+export const algorithmStepDuration = (id: AlgorithmId, step: AlgorithmStep) =>
+  step.path ? 1200 : algorithms[id].stepDuration;
+
+// Scene highlight sets for one snapshot, keyed the same way as traversalHighlights
+export const algorithmHighlights = (step: AlgorithmStep) => {
+  const links = new Set<string>();
+  step.treeEdges.forEach(([a, b]) => {
+    links.add(`${a}-${b}`);
+    links.add(`${b}-${a}`);
+  });
+
+  return {
+    nodes: new Set(step.visited),
+    links,
+    frontier: new Set(step.frontier),
+    active: step.current,
+  };
+};
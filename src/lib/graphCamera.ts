@@ -0,0 +1,72 @@
+// Pan/zoom state for the network graph. Graph coordinates map to canvas pixels as
+// canvas = graph * k + (x, y), the same convention as d3-zoom transforms.
+
+export interface Camera {
+  x: number;
+  y: number;
+  k: number;
+}
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 4;
+
+export const identityCamera: Camera = { x: 0, y: 0, k: 1 };
+
+export const clampZoom = (k: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, k));
+
+export const screenToGraph = (camera: Camera, px: number, py: number) => ({
+  x: (px - camera.x) / camera.k,
+  y: (py - camera.y) / camera.k,
+});
+
+// Zoom by `factor` while keeping the graph point under (px, py) fixed on screen
+export const zoomAround = (camera: Camera, px: number, py: number, factor: number): Camera => {
+  const k = clampZoom(camera.k * factor);
+  const point = screenToGraph(camera, px, py);
+  return { x: px - point.x * k, y: py - point.y * k, k };
+};
+
+// Camera that centres (gx, gy) on a width × height canvas at zoom k
+export const centerOn = (gx: number, gy: number, width: number, height: number, k: number): Camera => {
+  const zoom = clampZoom(k);
+  return { x: width / 2 - gx * zoom, y: height / 2 - gy * zoom, k: zoom };
+};
+
+// Camera that fits every point (plus `padding` canvas pixels) into view, never zooming past 1.5×
+export const fitBounds = (
+  points: Array<{ x?: number; y?: number }>,
+  width: number,
+  height: number,
+  padding = 60
+): Camera => {
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minY = Infinity;
+  let maxY = -Infinity;
+  points.forEach(p => {
+    if (p.x === undefined || p.y === undefined) return;
+    minX = Math.min(minX, p.x);
+    maxX = Math.max(maxX, p.x);
+    minY = Math.min(minY, p.y);
+    maxY = Math.max(maxY, p.y);
+  });
+  if (minX === Infinity) return identityCamera;
+
+  const spanX = Math.max(maxX - minX, 1);
+  const spanY = Math.max(maxY - minY, 1);
+  const k = Math.min(1.5, (width - padding * 2) / spanX, (height - padding * 2) / spanY);
+
+  return centerOn((minX + maxX) / 2, (minY + maxY) / 2, width, height, k);
+};
+
+// Ease in-out so moves start and land softly
+export const easeInOut = (t: number) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2);
+
+export const interpolateCamera = (from: Camera, to: Camera, t: number): Camera => {
+  const eased = easeInOut(t);
+  return {
+    x: from.x + (to.x - from.x) * eased,
+    y: from.y + (to.y - from.y) * eased,
+    k: from.k + (to.k - from.k) * eased,
+  };
+};
@@ -0,0 +1,217 @@
+import { drawCanvasGraph } from './canvasGraphRenderer';
+import { convexHull } from './communities';
+import { graphColors, linkEndpoint, type GraphLink, type GraphNode, type GraphScene } from './graphScene';
+
+// Serializers for the graph's export menu. Data formats describe the loaded network
+// (people and friendships); PNG and SVG capture the current view.
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const escapeCsv = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const edgePairs = (links: GraphLink[]) =>
+  links.map(link => [linkEndpoint(link.source), linkEndpoint(link.target)] as const);
+
+export const toGraphML = (nodes: GraphNode[], links: GraphLink[]) => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="name" for="node" attr.name="name" attr.type="string"/>',
+    '  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+    '  <key id="mutual" for="node" attr.name="mutual_count" attr.type="int"/>',
+    '  <key id="connections" for="node" attr.name="connections" attr.type="int"/>',
+    '  <graph id="network" edgedefault="undirected">',
+  ];
+
+  nodes.forEach(node => {
+    lines.push(
+      `    <node id="${escapeXml(node.id)}">`,
+      `      <data key="name">${escapeXml(node.name)}</data>`,
+      `      <data key="type">${node.type}</data>`,
+      `      <data key="mutual">${node.mutualCount}</data>`,
+      `      <data key="connections">${node.connections}</data>`,
+      '    </node>'
+    );
+  });
+
+  edgePairs(links).forEach(([source, target], index) => {
+    lines.push(`    <edge id="e${index}" source="${escapeXml(source)}" target="${escapeXml(target)}"/>`);
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n');
+};
+
+// GEXF keeps the on-screen positions and colors so Gephi opens it looking like the app
+export const toGEXF = (nodes: GraphNode[], links: GraphLink[]) => {
+  const rgb = (hex: string) => {
+    const value = parseInt(hex.slice(1), 16);
+    return `r="${(value >> 16) & 255}" g="${(value >> 8) & 255}" b="${value & 255}"`;
+  };
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    '  <graph defaultedgetype="undirected">',
+    '    <attributes class="node">',
+    '      <attribute id="type" title="type" type="string"/>',
+    '      <attribute id="mutual" title="mutual_count" type="integer"/>',
+    '      <attribute id="connections" title="connections" type="integer"/>',
+    '    </attributes>',
+    '    <nodes>',
+  ];
+
+  nodes.forEach(node => {
+    lines.push(
+      `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.name)}">`,
+      '        <attvalues>',
+      `          <attvalue for="type" value="${node.type}"/>`,
+      `          <attvalue for="mutual" value="${node.mutualCount}"/>`,
+      `          <attvalue for="connections" value="${node.connections}"/>`,
+      '        </attvalues>',
+      `        <viz:color ${rgb(node.color)}/>`,
+      `        <viz:size value="${node.size}"/>`
+    );
+    if (node.x !== undefined && node.y !== undefined) {
+      lines.push(`        <viz:position x="${node.x.toFixed(2)}" y="${(-node.y).toFixed(2)}" z="0"/>`);
+    }
+    lines.push('      </node>');
+  });
+
+  lines.push('    </nodes>', '    <edges>');
+  edgePairs(links).forEach(([source, target], index) => {
+    lines.push(`      <edge id="e${index}" source="${escapeXml(source)}" target="${escapeXml(target)}"/>`);
+  });
+  lines.push('    </edges>', '  </graph>', '</gexf>');
+  return lines.join('\n');
+};
+
+export const toEdgeListCSV = (nodes: GraphNode[], links: GraphLink[]) => {
+  const names = new Map(nodes.map(node => [node.id, node.name]));
+  const rows = edgePairs(links).map(([source, target]) =>
+    [source, target, names.get(source) ?? '', names.get(target) ?? ''].map(escapeCsv).join(',')
+  );
+  return ['source,target,source_name,target_name', ...rows].join('\n');
+};
+
+// Node-link JSON, the shape networkx.node_link_graph reads
+export const toGraphJSON = (nodes: GraphNode[], links: GraphLink[]) =>
+  JSON.stringify(
+    {
+      directed: false,
+      multigraph: false,
+      graph: {},
+      nodes: nodes.map(node => ({
+        id: node.id,
+        name: node.name,
+        type: node.type,
+        mutual_count: node.mutualCount,
+        connections: node.connections,
+      })),
+      links: edgePairs(links).map(([source, target]) => ({ source, target })),
+    },
+    null,
+    2
+  );
+
+const BACKGROUND = '#0a0a0a';
+
+// The current view drawn at `scale` times its on-screen resolution
+export const renderViewToPNG = (
+  scene: GraphScene,
+  scale: number,
+  getAvatarImage: (url: string) => HTMLImageElement | null
+) =>
+  new Promise<Blob>((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = scene.width * scale;
+    canvas.height = scene.height * scale;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      reject(new Error('Canvas 2D is not available'));
+      return;
+    }
+
+    const { camera } = scene;
+    drawCanvasGraph(
+      context,
+      {
+        ...scene,
+        width: canvas.width,
+        height: canvas.height,
+        camera: { x: camera.x * scale, y: camera.y * scale, k: camera.k * scale },
+      },
+      getAvatarImage
+    );
+
+    // Fill the background behind what was drawn
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.globalCompositeOperation = 'destination-over';
+    context.fillStyle = BACKGROUND;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode PNG'))), 'image/png');
+  });
+
+// The current view as vector shapes; avatars are left out so the file stands alone
+export const renderViewToSVG = (scene: GraphScene) => {
+  const { camera, width, height, highlightNodes, highlightLinks, pathNodes, pathLinks } = scene;
+  const lines = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `  <rect width="100%" height="100%" fill="${BACKGROUND}"/>`,
+    `  <g transform="matrix(${camera.k} 0 0 ${camera.k} ${camera.x} ${camera.y})" font-family="sans-serif">`,
+  ];
+
+  scene.communities.forEach(community => {
+    const members = scene.nodes.filter(node => community.nodeIds.has(node.id) && node.x !== undefined);
+    if (members.length === 0) return;
+    const hull = convexHull(members.map(node => ({ x: node.x, y: node.y })));
+    const points = hull.map(point => `${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(' ');
+    lines.push(
+      `    <polygon points="${points}" fill="${community.color}" stroke="${community.color}" stroke-width="64" stroke-linejoin="round" stroke-linecap="round" opacity="0.12"/>`
+    );
+    if (community.name) {
+      const top = hull.reduce((best, point) => (point.y < best.y ? point : best), hull[0]);
+      lines.push(
+        `    <text x="${top.x.toFixed(1)}" y="${(top.y - 36).toFixed(1)}" text-anchor="middle" font-size="14" font-weight="bold" fill="${community.color}">${escapeXml(community.name)}</text>`
+      );
+    }
+  });
+
+  scene.links.forEach(link => {
+    const source = link.source as GraphNode;
+    const target = link.target as GraphNode;
+    if (source.x === undefined || target.x === undefined) return;
+
+    const key = `${source.id}-${target.id}`;
+    const stroke = pathLinks.has(key) ? graphColors.path : highlightLinks.has(key) ? graphColors.highlight : graphColors.edge;
+    const strokeWidth = stroke === graphColors.edge ? 3 : 5;
+    lines.push(
+      `    <line x1="${source.x.toFixed(1)}" y1="${source.y.toFixed(1)}" x2="${target.x.toFixed(1)}" y2="${target.y.toFixed(1)}" stroke="${stroke}" stroke-width="${strokeWidth}"/>`
+    );
+  });
+
+  scene.nodes.forEach(node => {
+    if (node.x === undefined) return;
+
+    const isHighlighted = highlightNodes.has(node.id);
+    const x = node.x.toFixed(1);
+    const y = node.y.toFixed(1);
+    if (pathNodes.has(node.id)) {
+      lines.push(`    <circle cx="${x}" cy="${y}" r="${node.size + 6}" fill="none" stroke="${graphColors.path}" stroke-width="3"/>`);
+    }
+    lines.push(
+      `    <circle cx="${x}" cy="${y}" r="${node.size}" fill="${isHighlighted ? graphColors.highlight : node.color}" stroke="${isHighlighted ? '#FFF' : graphColors.border}" stroke-width="2"/>`,
+      `    <text x="${x}" y="${(node.y + node.size + 18).toFixed(1)}" text-anchor="middle" font-size="12" fill="${graphColors.label}">${escapeXml(node.name)}</text>`
+    );
+  });
+
+  lines.push('  </g>', '</svg>');
+  return lines.join('\n');
+};
@@ -0,0 +1,37 @@
+import type { GraphNodeType } from './graphScene';
+
+// Which parts of the network graph are shown, remembered per user in localStorage
+
+export interface GraphFilters {
+  hiddenTypes: GraphNodeType[];
+  // Suggestions with fewer mutual friends than this are hidden
+  minMutual: number;
+}
+
+export const defaultGraphFilters: GraphFilters = { hiddenTypes: [], minMutual: 0 };
+
+const storageKey = (userId: string) => `graph-filters:${userId}`;
+
+export const loadGraphFilters = (userId: string): GraphFilters => {
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    if (!stored) return defaultGraphFilters;
+    const parsed = JSON.parse(stored) as Partial<GraphFilters>;
+    return {
+      hiddenTypes: Array.isArray(parsed.hiddenTypes) ? parsed.hiddenTypes : [],
+      minMutual: typeof parsed.minMutual === 'number' ? parsed.minMutual : 0,
+    };
+  } catch (error) {
+    console.error('Error reading graph filters:', error);
+    return defaultGraphFilters;
+  }
+};
+
+export const saveGraphFilters = (userId: string, filters: GraphFilters) => {
+  try {
+    localStorage.setItem(storageKey(userId), JSON.stringify(filters));
+  } catch (error) {
+    // Storage can be full or disabled; the filters just won't survive a reload
+    console.error('Error saving graph filters:', error);
+  }
+};
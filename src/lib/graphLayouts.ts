@@ -0,0 +1,185 @@
+import { buildAdjacency, type Adjacency } from './suggestionScorers';
+import { detectCommunities } from './communities';
+import { linkEndpoint, type GraphLink, type GraphNode } from './graphScene';
+
+// Deterministic layouts for the network graph. Force is handled by the layout worker;
+// the others compute target positions directly, which GraphVisualization animates towards.
+
+export type GraphLayoutId = 'force' | 'concentric' | 'radial-tree' | 'circular';
+
+export const graphLayouts: Record<GraphLayoutId, { id: GraphLayoutId; label: string }> = {
+  force: { id: 'force', label: 'force' },
+  concentric: { id: 'concentric', label: 'rings by hop' },
+  'radial-tree': { id: 'radial-tree', label: 'radial tree' },
+  circular: { id: 'circular', label: 'circle by community' },
+};
+
+export interface LayoutInput {
+  nodes: GraphNode[];
+  links: GraphLink[];
+  rootId: string;
+  width: number;
+  height: number;
+}
+
+export type LayoutPositions = Map<string, { x: number; y: number }>;
+
+const RING_SPACING = 170;
+// Arc length each node gets on a ring or circle, so busy rings grow instead of overlapping
+const NODE_SPACING = 48;
+// Gap between communities on the circle, in node slots
+const COMMUNITY_GAP = 2;
+
+const adjacencyOf = (links: GraphLink[]): Adjacency =>
+  buildAdjacency(links.map(link => ({ user_id: linkEndpoint(link.source), friend_id: linkEndpoint(link.target) })));
+
+// BFS from the root: hop count and the neighbour each node was first reached from
+const bfsTree = (adjacency: Adjacency, rootId: string) => {
+  const depth = new Map([[rootId, 0]]);
+  const parent = new Map<string, string>();
+  const queue = [rootId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    (adjacency.get(id) ?? new Set<string>()).forEach(next => {
+      if (depth.has(next)) return;
+      depth.set(next, depth.get(id) + 1);
+      parent.set(next, id);
+      queue.push(next);
+    });
+  }
+  return { depth, parent };
+};
+
+const polar = (cx: number, cy: number, radius: number, angle: number) => ({
+  x: cx + radius * Math.cos(angle),
+  y: cy + radius * Math.sin(angle),
+});
+
+// Me in the middle, then a ring per hop. Each ring is ordered by the angle of the node's
+// parent on the ring inside it, which keeps edges between rings short.
+const concentric = ({ nodes, links, rootId, width, height }: LayoutInput): LayoutPositions => {
+  const { depth, parent } = bfsTree(adjacencyOf(links), rootId);
+  const positions: LayoutPositions = new Map();
+  const angles = new Map<string, number>();
+  const cx = width / 2;
+  const cy = height / 2;
+
+  // Anyone we can't reach goes on a ring past the last one
+  const maxDepth = Math.max(0, ...nodes.map(node => depth.get(node.id) ?? 0));
+  const rings = new Map<number, GraphNode[]>();
+  nodes.forEach(node => {
+    const hop = depth.get(node.id) ?? maxDepth + 1;
+    if (!rings.has(hop)) rings.set(hop, []);
+    rings.get(hop)!.push(node);
+  });
+
+  Array.from(rings.keys()).sort((a, b) => a - b).forEach(hop => {
+    const ring = rings.get(hop)!;
+    if (hop === 0) {
+      ring.forEach(node => {
+        positions.set(node.id, { x: cx, y: cy });
+        angles.set(node.id, 0);
+      });
+      return;
+    }
+
+    ring.sort((a, b) => (angles.get(parent.get(a.id)) ?? 0) - (angles.get(parent.get(b.id)) ?? 0));
+    const radius = Math.max(hop * RING_SPACING, (ring.length * NODE_SPACING) / (2 * Math.PI));
+    ring.forEach((node, index) => {
+      const angle = (2 * Math.PI * index) / ring.length;
+      angles.set(node.id, angle);
+      positions.set(node.id, polar(cx, cy, radius, angle));
+    });
+  });
+
+  return positions;
+};
+
+// BFS tree drawn outwards from me, each subtree getting a wedge sized by how many leaves it has
+const radialTree = ({ nodes, links, rootId, width, height }: LayoutInput): LayoutPositions => {
+  const { depth, parent } = bfsTree(adjacencyOf(links), rootId);
+  const positions: LayoutPositions = new Map();
+  const cx = width / 2;
+  const cy = height / 2;
+
+  const children = new Map<string, string[]>();
+  parent.forEach((from, id) => {
+    if (!children.has(from)) children.set(from, []);
+    children.get(from)!.push(id);
+  });
+
+  const leafCounts = new Map<string, number>();
+  const countLeaves = (id: string): number => {
+    const kids = children.get(id) ?? [];
+    const count = kids.length === 0 ? 1 : kids.reduce((total, kid) => total + countLeaves(kid), 0);
+    leafCounts.set(id, count);
+    return count;
+  };
+  countLeaves(rootId);
+
+  // Unreachable nodes hang off the root as extra leaves on the outermost ring
+  const unreachable = nodes.filter(node => !depth.has(node.id));
+  const maxDepth = Math.max(1, ...Array.from(depth.values()));
+  const totalLeaves = leafCounts.get(rootId) + unreachable.length;
+  const radiusStep = Math.max(RING_SPACING, (totalLeaves * NODE_SPACING) / (2 * Math.PI * maxDepth));
+
+  const place = (id: string, start: number, end: number) => {
+    const angle = (start + end) / 2;
+    positions.set(id, id === rootId ? { x: cx, y: cy } : polar(cx, cy, depth.get(id) * radiusStep, angle));
+
+    let cursor = start;
+    (children.get(id) ?? []).forEach(kid => {
+      const span = ((end - start) * leafCounts.get(kid)) / leafCounts.get(id);
+      place(kid, cursor, cursor + span);
+      cursor += span;
+    });
+  };
+
+  const treeSpan = (2 * Math.PI * leafCounts.get(rootId)) / totalLeaves;
+  place(rootId, 0, treeSpan);
+
+  unreachable.forEach((node, index) => {
+    const angle = treeSpan + ((2 * Math.PI - treeSpan) * (index + 0.5)) / unreachable.length;
+    positions.set(node.id, polar(cx, cy, (maxDepth + 1) * radiusStep, angle));
+  });
+
+  return positions;
+};
+
+// Everyone on one circle, grouped into contiguous arcs by community with a gap between groups
+const circular = ({ nodes, links, width, height }: LayoutInput): LayoutPositions => {
+  const communities = detectCommunities(nodes.map(node => node.id), adjacencyOf(links));
+  const positions: LayoutPositions = new Map();
+
+  const ordered = [...nodes].sort(
+    (a, b) => communities.get(a.id) - communities.get(b.id) || a.name.localeCompare(b.name)
+  );
+  const communityCount = new Set(communities.values()).size;
+  const slots = ordered.length + (communityCount > 1 ? communityCount * COMMUNITY_GAP : 0);
+  const radius = Math.max(RING_SPACING, (slots * NODE_SPACING) / (2 * Math.PI));
+
+  let slot = 0;
+  ordered.forEach((node, index) => {
+    if (index > 0 && communityCount > 1 && communities.get(node.id) !== communities.get(ordered[index - 1].id)) {
+      slot += COMMUNITY_GAP;
+    }
+    positions.set(node.id, polar(width / 2, height / 2, radius, (2 * Math.PI * slot) / slots - Math.PI / 2));
+    slot += 1;
+  });
+
+  return positions;
+};
+
+export const computeLayout = (
+  id: Exclude<GraphLayoutId, 'force'>,
+  input: LayoutInput
+): LayoutPositions => {
+  switch (id) {
+    case 'concentric':
+      return concentric(input);
+    case 'radial-tree':
+      return radialTree(input);
+    case 'circular':
+      return circular(input);
+  }
+};
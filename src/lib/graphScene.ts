@@ -0,0 +1,95 @@
+import type { Camera } from './graphCamera';
+
+// Shared shapes for the network graph: what the simulation lays out and what the
+// Canvas2D and WebGL renderers draw. Both renderers must honour the same highlight rules.
+
+// 'extended' nodes are past the two-hop network, loaded by expanding someone on demand
+export type GraphNodeType = 'current' | 'friend' | 'mutual' | 'suggestion' | 'extended';
+
+export interface GraphNode {
+  id: string;
+  name: string;
+  x?: number;
+  y?: number;
+  vx?: number;
+  vy?: number;
+  fx?: number | null;
+  fy?: number | null;
+  color: string;
+  size: number;
+  avatarUrl?: string | null;
+  type: GraphNodeType;
+  // Friends of mine this node is also connected to, and its degree within the loaded network
+  mutualCount: number;
+  connections: number;
+}
+
+export interface GraphLink {
+  // d3-force swaps ids for node objects once the link force initialises
+  source: string | GraphNode;
+  target: string | GraphNode;
+}
+
+export interface GraphFocus {
+  hoveredId: string | null;
+  selectedId: string | null;
+  // The selected node and its 1-hop neighbors; everything else is dimmed
+  neighbors: Set<string>;
+}
+
+// A detected community, shaded behind its members when the graph is colored by community
+export interface GraphCommunity {
+  nodeIds: Set<string>;
+  color: string;
+  name: string | null;
+}
+
+export interface GraphScene {
+  nodes: GraphNode[];
+  links: GraphLink[];
+  camera: Camera;
+  width: number;
+  height: number;
+  // Nodes/edges lit up by the traversal animation; edge keys are `${a}-${b}` in both directions
+  highlightNodes: Set<string>;
+  highlightLinks: Set<string>;
+  // Nodes/edges along spotlighted paths
+  pathNodes: Set<string>;
+  pathLinks: Set<string>;
+  // Algorithm explorer: nodes waiting in the queue/stack and the one being expanded
+  frontierNodes: Set<string>;
+  activeNodeId: string | null;
+  communities: GraphCommunity[];
+  focus: GraphFocus;
+}
+
+export const graphColors = {
+  current: '#9b87f5',
+  friend: '#7E69AB',
+  mutual: '#F97316',
+  suggestion: '#D6BCFA',
+  extended: '#94A3B8',
+  highlight: '#F97316',
+  highlightGlow: 'rgba(249, 115, 22, 0.3)',
+  path: '#22D3EE',
+  frontier: '#FACC15',
+  edge: 'rgba(155, 135, 245, 0.6)',
+  edgeGlow: 'rgba(155, 135, 245, 0.4)',
+  border: 'rgba(255, 255, 255, 0.5)',
+  label: 'rgba(255, 255, 255, 0.95)',
+  mutualLabel: 'rgba(249, 115, 22, 0.8)',
+  suggestionLabel: 'rgba(214, 188, 250, 0.8)',
+};
+
+export const DIMMED_NODE_ALPHA = 0.2;
+export const DIMMED_LINK_ALPHA = 0.1;
+
+export const linkKey = (a: string, b: string) => `${a}-${b}`;
+
+export const linkEndpoint = (end: string | GraphNode) => (typeof end === 'string' ? end : end.id);
+
+export const isDimmed = (focus: GraphFocus, id: string) =>
+  focus.selectedId !== null && !focus.neighbors.has(id);
+
+export const touchesSelection = (focus: GraphFocus, link: GraphLink) =>
+  linkEndpoint(link.source) === focus.selectedId || linkEndpoint(link.target) === focus.selectedId;
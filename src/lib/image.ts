@@ -0,0 +1,71 @@
+// Client-side helpers for turning a picked photo into a square avatar before upload
+
+export interface SquareCrop {
+  // 1 shows the largest centred square; higher values zoom in
+  zoom: number;
+  // Position of the crop inside the remaining slack, from -1 (left/top) to 1 (right/bottom)
+  offsetX: number;
+  offsetY: number;
+}
+
+export const loadImageFile = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read image'));
+    };
+    image.src = url;
+  });
+
+// Source rectangle (in image pixels) that the crop selects
+export const getCropRect = (image: HTMLImageElement, crop: SquareCrop) => {
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  const side = Math.min(width, height) / crop.zoom;
+  const centerX = width / 2 + crop.offsetX * (width - side) / 2;
+  const centerY = height / 2 + crop.offsetY * (height - side) / 2;
+  return { x: centerX - side / 2, y: centerY - side / 2, side };
+};
+
+export const drawSquareCrop = (
+  context: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  crop: SquareCrop,
+  size: number
+) => {
+  const { x, y, side } = getCropRect(image, crop);
+  context.clearRect(0, 0, size, size);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, x, y, side, side, 0, 0, size, size);
+};
+
+export const cropToSquareBlob = (
+  image: HTMLImageElement,
+  crop: SquareCrop,
+  size = 256,
+  type = 'image/webp',
+  quality = 0.9
+): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      reject(new Error('Canvas is not supported'));
+      return;
+    }
+
+    drawSquareCrop(context, image, crop, size);
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not encode image'))),
+      type,
+      quality
+    );
+  });
@@ -0,0 +1,218 @@
+import type { Adjacency } from './suggestionScorers';
+
+// Structural stats over my ego network (me, my friends and their friends, as loaded from
+// get_network_friendships) for the insights tab.
+
+// Above this many people, betweenness is estimated from an evenly spaced sample of sources
+const BETWEENNESS_SAMPLE = 400;
+
+export interface NetworkInsights {
+  people: number;
+  connections: number;
+  // Share of all possible pairs who are friends
+  density: number;
+  // Share of my friends' pairs who are friends with each other
+  myClustering: number;
+  averageClustering: number;
+  degreeDistribution: Array<{ degree: number; count: number }>;
+  // Per friend, largest first
+  friendClustering: Array<{ id: string; clustering: number }>;
+  friendBetweenness: Array<{ id: string; betweenness: number }>;
+  // People whose removal splits the network, and friendships whose removal does
+  articulationPoints: string[];
+  bridges: Array<[string, string]>;
+  // Per friend: who I could no longer reach if that friend dropped out of my network
+  reachabilityLoss: Array<{ id: string; lost: string[] }>;
+}
+
+const neighborsOf = (adjacency: Adjacency, id: string) => adjacency.get(id) ?? new Set<string>();
+
+const edgeCount = (adjacency: Adjacency) => {
+  let total = 0;
+  adjacency.forEach(neighbors => (total += neighbors.size));
+  return total / 2;
+};
+
+// Share of a node's neighbour pairs that are themselves connected
+export const localClustering = (adjacency: Adjacency, id: string) => {
+  const neighbors = Array.from(neighborsOf(adjacency, id));
+  if (neighbors.length < 2) return 0;
+
+  let links = 0;
+  neighbors.forEach((a, index) => {
+    const aNeighbors = neighborsOf(adjacency, a);
+    for (let other = index + 1; other < neighbors.length; other++) {
+      if (aNeighbors.has(neighbors[other])) links += 1;
+    }
+  });
+  return (2 * links) / (neighbors.length * (neighbors.length - 1));
+};
+
+// Brandes' algorithm for unweighted, undirected graphs, normalised to 0–1 by the number of
+// pairs that could route through a node
+export const betweennessCentrality = (adjacency: Adjacency): Map<string, number> => {
+  const ids = Array.from(adjacency.keys()).sort();
+  const centrality = new Map(ids.map(id => [id, 0]));
+
+  const step = Math.max(1, Math.ceil(ids.length / BETWEENNESS_SAMPLE));
+  const sources = ids.filter((_, index) => index % step === 0);
+
+  sources.forEach(source => {
+    const stack: string[] = [];
+    const predecessors = new Map<string, string[]>();
+    const paths = new Map([[source, 1]]);
+    const distance = new Map([[source, 0]]);
+    const queue = [source];
+    let head = 0;
+
+    while (head < queue.length) {
+      const id = queue[head++];
+      stack.push(id);
+      neighborsOf(adjacency, id).forEach(next => {
+        if (!distance.has(next)) {
+          distance.set(next, distance.get(id) + 1);
+          queue.push(next);
+        }
+        if (distance.get(next) === distance.get(id) + 1) {
+          paths.set(next, (paths.get(next) ?? 0) + paths.get(id));
+          if (!predecessors.has(next)) predecessors.set(next, []);
+          predecessors.get(next)!.push(id);
+        }
+      });
+    }
+
+    const dependency = new Map<string, number>();
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      (predecessors.get(id) ?? []).forEach(previous => {
+        const share = (paths.get(previous) / paths.get(id)) * (1 + (dependency.get(id) ?? 0));
+        dependency.set(previous, (dependency.get(previous) ?? 0) + share);
+      });
+      if (id !== source) centrality.set(id, centrality.get(id) + (dependency.get(id) ?? 0));
+    }
+  });
+
+  // Each pair was counted from both ends, and sampling covers 1/step of the sources
+  const n = ids.length;
+  const scale = n > 2 ? step / ((n - 1) * (n - 2)) : 0;
+  centrality.forEach((value, id) => centrality.set(id, value * scale));
+  return centrality;
+};
+
+// Tarjan's low-link search, iterative so long chains don't overflow the stack
+export const articulationPointsAndBridges = (adjacency: Adjacency) => {
+  const order = new Map<string, number>();
+  const low = new Map<string, number>();
+  const points = new Set<string>();
+  const bridges: Array<[string, string]> = [];
+  let counter = 0;
+
+  Array.from(adjacency.keys()).sort().forEach(root => {
+    if (order.has(root)) return;
+
+    order.set(root, counter);
+    low.set(root, counter);
+    counter += 1;
+    let rootChildren = 0;
+    const stack = [{ id: root, parent: null as string | null, neighbors: Array.from(neighborsOf(adjacency, root)), next: 0 }];
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+
+      if (frame.next < frame.neighbors.length) {
+        const neighbor = frame.neighbors[frame.next++];
+        if (neighbor === frame.parent) continue;
+        if (order.has(neighbor)) {
+          low.set(frame.id, Math.min(low.get(frame.id), order.get(neighbor)));
+          continue;
+        }
+        order.set(neighbor, counter);
+        low.set(neighbor, counter);
+        counter += 1;
+        if (frame.id === root) rootChildren += 1;
+        stack.push({ id: neighbor, parent: frame.id, neighbors: Array.from(neighborsOf(adjacency, neighbor)), next: 0 });
+        continue;
+      }
+
+      stack.pop();
+      const parent = frame.parent;
+      if (parent === null) continue;
+      low.set(parent, Math.min(low.get(parent), low.get(frame.id)));
+      if (low.get(frame.id) > order.get(parent)) bridges.push([parent, frame.id]);
+      if (parent !== root && low.get(frame.id) >= order.get(parent)) points.add(parent);
+    }
+
+    if (rootChildren > 1) points.add(root);
+  });
+
+  return { articulationPoints: Array.from(points), bridges };
+};
+
+// Everyone reachable from `rootId` without passing through `removedId`
+const reachableWithout = (adjacency: Adjacency, rootId: string, removedId: string | null) => {
+  const seen = new Set([rootId]);
+  const queue = [rootId];
+  let head = 0;
+  while (head < queue.length) {
+    neighborsOf(adjacency, queue[head++]).forEach(next => {
+      if (next === removedId || seen.has(next)) return;
+      seen.add(next);
+      queue.push(next);
+    });
+  }
+  return seen;
+};
+
+export const computeNetworkInsights = (adjacency: Adjacency, rootId: string): NetworkInsights => {
+  const ids = Array.from(adjacency.keys());
+  const people = ids.length;
+  const connections = edgeCount(adjacency);
+  const friendIds = Array.from(neighborsOf(adjacency, rootId));
+
+  const degreeCounts = new Map<number, number>();
+  ids.forEach(id => {
+    const degree = neighborsOf(adjacency, id).size;
+    degreeCounts.set(degree, (degreeCounts.get(degree) ?? 0) + 1);
+  });
+  const degreeDistribution = Array.from(degreeCounts.entries())
+    .map(([degree, count]) => ({ degree, count }))
+    .sort((a, b) => a.degree - b.degree);
+
+  const clustering = new Map(ids.map(id => [id, localClustering(adjacency, id)]));
+  const averageClustering = people === 0 ? 0 : ids.reduce((total, id) => total + clustering.get(id), 0) / people;
+
+  // Betweenness among everyone but me: I sit on every path between my friends, which
+  // would hide which of them bridge my groups
+  const withoutMe: Adjacency = new Map();
+  adjacency.forEach((neighbors, id) => {
+    if (id === rootId) return;
+    withoutMe.set(id, new Set(Array.from(neighbors).filter(other => other !== rootId)));
+  });
+  const betweenness = betweennessCentrality(withoutMe);
+
+  const reachable = reachableWithout(adjacency, rootId, null);
+  const reachabilityLoss = friendIds
+    .map(id => {
+      const stillReachable = reachableWithout(adjacency, rootId, id);
+      return { id, lost: Array.from(reachable).filter(other => other !== id && !stillReachable.has(other)) };
+    })
+    .filter(entry => entry.lost.length > 0)
+    .sort((a, b) => b.lost.length - a.lost.length);
+
+  return {
+    people,
+    connections,
+    density: people > 1 ? (2 * connections) / (people * (people - 1)) : 0,
+    myClustering: clustering.get(rootId) ?? 0,
+    averageClustering,
+    degreeDistribution,
+    friendClustering: friendIds
+      .map(id => ({ id, clustering: clustering.get(id) }))
+      .sort((a, b) => b.clustering - a.clustering),
+    friendBetweenness: friendIds
+      .map(id => ({ id, betweenness: betweenness.get(id) ?? 0 }))
+      .sort((a, b) => b.betweenness - a.betweenness),
+    ...articulationPointsAndBridges(adjacency),
+    reachabilityLoss,
+  };
+};
@@ -0,0 +1,36 @@
+import type { Database } from '@/integrations/supabase/types';
+
+// Profile fields whose visibility users control. The database masks them in
+// profile_directory (get_profile_summary for friend_count; get_network_friendships,
+// get_connection_paths, get_node_neighborhood, get_degrees_of_separation and the
+// mutual_friend_ids of get_friend_suggestions and get_profile_summary for friend_list)
+// via can_view_profile_field; add new fields here, there and to the allowed fields
+// in profile_field_visibility.
+
+export type ProfileVisibility = Database['public']['Enums']['profile_visibility'];
+
+export type ProfileField = 'email' | 'bio' | 'avatar_url' | 'friend_count' | 'friend_list';
+
+export const profileFields: Array<{ field: ProfileField; label: string }> = [
+  { field: 'email', label: 'email' },
+  { field: 'bio', label: 'bio' },
+  { field: 'avatar_url', label: 'profile photo' },
+  { field: 'friend_count', label: 'friend count' },
+  { field: 'friend_list', label: 'friend list' },
+];
+
+export const visibilityOptions: Array<{ value: ProfileVisibility; label: string }> = [
+  { value: 'public', label: 'everyone' },
+  { value: 'friends_of_friends', label: 'friends of friends' },
+  { value: 'friends', label: 'friends' },
+  { value: 'only_me', label: 'only me' },
+];
+
+// Mirrors default_field_visibility() for fields without a saved setting
+export const defaultFieldVisibility: Record<ProfileField, ProfileVisibility> = {
+  email: 'friends',
+  bio: 'public',
+  avatar_url: 'public',
+  friend_count: 'public',
+  friend_list: 'friends_of_friends',
+};
@@ -0,0 +1,118 @@
+// Link-prediction scorers used to rank friend suggestions over the ego network
+// returned by get_network_friendships. Degrees are measured inside that network,
+// so a candidate's own degree only counts the edges we can see.
+
+export type Adjacency = Map<string, Set<string>>;
+
+export type SuggestionStrategy =
+  | 'common-neighbors'
+  | 'jaccard'
+  | 'adamic-adar'
+  | 'resource-allocation'
+  | 'preferential-attachment';
+
+export interface SuggestionScorer {
+  id: SuggestionStrategy;
+  label: string;
+  description: string;
+  score: (adjacency: Adjacency, userId: string, candidateId: string) => number;
+}
+
+export const buildAdjacency = (
+  friendships: Array<{ user_id: string; friend_id: string }>
+): Adjacency => {
+  const adjacency: Adjacency = new Map();
+
+  const link = (a: string, b: string) => {
+    if (!adjacency.has(a)) {
+      adjacency.set(a, new Set());
+    }
+    adjacency.get(a)!.add(b);
+  };
+
+  friendships.forEach(f => {
+    link(f.user_id, f.friend_id);
+    link(f.friend_id, f.user_id);
+  });
+
+  return adjacency;
+};
+
+const neighbors = (adjacency: Adjacency, id: string) => adjacency.get(id) ?? new Set<string>();
+
+const commonNeighbors = (adjacency: Adjacency, a: string, b: string) => {
+  const aNeighbors = neighbors(adjacency, a);
+  const bNeighbors = neighbors(adjacency, b);
+  const [smaller, larger] = aNeighbors.size <= bNeighbors.size
+    ? [aNeighbors, bNeighbors]
+    : [bNeighbors, aNeighbors];
+
+  const shared: string[] = [];
+  smaller.forEach(id => {
+    if (larger.has(id)) shared.push(id);
+  });
+  return shared;
+};
+
+export const suggestionScorers: Record<SuggestionStrategy, SuggestionScorer> = {
+  'common-neighbors': {
+    id: 'common-neighbors',
+    label: 'mutual count',
+    description: 'number of friends you share',
+    score: (adjacency, userId, candidateId) =>
+      commonNeighbors(adjacency, userId, candidateId).length,
+  },
+  jaccard: {
+    id: 'jaccard',
+    label: 'jaccard',
+    description: 'shared friends relative to both circles combined',
+    score: (adjacency, userId, candidateId) => {
+      const shared = commonNeighbors(adjacency, userId, candidateId).length;
+      const union = neighbors(adjacency, userId).size + neighbors(adjacency, candidateId).size - shared;
+      return union === 0 ? 0 : shared / union;
+    },
+  },
+  'adamic-adar': {
+    id: 'adamic-adar',
+    label: 'adamic-adar',
+    description: 'shared friends, weighting less-connected ones higher',
+    score: (adjacency, userId, candidateId) =>
+      commonNeighbors(adjacency, userId, candidateId).reduce((total, id) => {
+        const degree = neighbors(adjacency, id).size;
+        // A shared neighbour always has degree >= 2, so log(degree) > 0
+        return total + 1 / Math.log(degree);
+      }, 0),
+  },
+  'resource-allocation': {
+    id: 'resource-allocation',
+    label: 'resource allocation',
+    description: 'shared friends, heavily discounting hubs',
+    score: (adjacency, userId, candidateId) =>
+      commonNeighbors(adjacency, userId, candidateId).reduce(
+        (total, id) => total + 1 / neighbors(adjacency, id).size,
+        0
+      ),
+  },
+  'preferential-attachment': {
+    id: 'preferential-attachment',
+    label: 'preferential attachment',
+    description: 'well-connected people first',
+    score: (adjacency, userId, candidateId) =>
+      neighbors(adjacency, userId).size * neighbors(adjacency, candidateId).size,
+  },
+};
+
+// Sorts candidates by the scorer, keeping the incoming order for ties
+export const rankCandidates = <T extends { user_id: string }>(
+  candidates: T[],
+  adjacency: Adjacency,
+  userId: string,
+  scorer: SuggestionScorer
+): Array<T & { score: number }> =>
+  candidates
+    .map((candidate, index) => ({
+      candidate: { ...candidate, score: scorer.score(adjacency, userId, candidate.user_id) },
+      index,
+    }))
+    .sort((a, b) => b.candidate.score - a.candidate.score || a.index - b.index)
+    .map(({ candidate }) => candidate);
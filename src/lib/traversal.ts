@@ -0,0 +1,169 @@
+import { buildAdjacency } from './suggestionScorers';
+
+// Precomputed friend-of-friend traversal. The same event list drives the graph animation
+// and the Traversal Log, so replaying, pausing or scrubbing keeps both in sync.
+
+export type TraversalEvent =
+  | { type: 'start'; nodeId: string; name: string; friendCount: number }
+  | {
+      type: 'visit-node';
+      nodeId: string;
+      name: string;
+      // The friend edge the walk came in through
+      via: string;
+      index: number;
+      total: number;
+      connectionCount: number;
+    }
+  | { type: 'inspect-edge'; from: string; to: string; name: string }
+  | { type: 'found-candidate'; nodeId: string; name: string; via: string; mutualCount: number }
+  | { type: 'skip-existing-friend'; nodeId: string; name: string; via: string }
+  | { type: 'complete'; candidateCount: number; scorerLabel: string }
+  | {
+      type: 'rank-result';
+      nodeId: string;
+      name: string;
+      rank: number;
+      mutualFriends: number;
+      // Only set when the scorer isn't the plain mutual count
+      score: number | null;
+    };
+
+export type TraversalEventType = TraversalEvent['type'];
+
+interface TraversalInput {
+  currentUserId: string;
+  currentUserName: string;
+  friends: Array<{ user_id: string; name: string }>;
+  friendships: Array<{ user_id: string; friend_id: string }>;
+  names: Map<string, string>;
+  rankedSuggestions: Array<{ user_id: string; name: string; mutualFriends: number; score: number }>;
+  scorerLabel: string;
+  showScores: boolean;
+}
+
+// How long playback lingers on each kind of event at 1× speed, in ms
+const eventDurations: Record<TraversalEventType, number> = {
+  start: 800,
+  'visit-node': 600,
+  'inspect-edge': 100,
+  'found-candidate': 400,
+  'skip-existing-friend': 150,
+  complete: 400,
+  'rank-result': 150,
+};
+
+export const traversalEventDuration = (event: TraversalEvent) => eventDurations[event.type];
+
+// Replays the friend-of-friend traversal over the loaded network; the rank results are
+// the suggestions as re-ranked on the client by the selected scorer (rankCandidates)
+export const traceSuggestionTraversal = ({
+  currentUserId,
+  currentUserName,
+  friends,
+  friendships,
+  names,
+  rankedSuggestions,
+  scorerLabel,
+  showScores,
+}: TraversalInput): TraversalEvent[] => {
+  const events: TraversalEvent[] = [];
+  const friendIds = new Set(friends.map(f => f.user_id));
+  const nameOf = (id: string) => names.get(id) || id;
+
+  events.push({ type: 'start', nodeId: currentUserId, name: currentUserName, friendCount: friends.length });
+
+  const mutualCounts = new Map<string, number>();
+  // Friendships are stored in both directions, so walk the deduplicated adjacency
+  const adjacency = buildAdjacency(friendships);
+
+  // For each of my friends, find their friends (BFS Level 1)
+  friends.forEach((friend, index) => {
+    // The edge back to me is where we came from, not a connection to inspect
+    const neighbours = Array.from(adjacency.get(friend.user_id) ?? []).filter(id => id !== currentUserId);
+
+    events.push({
+      type: 'visit-node',
+      nodeId: friend.user_id,
+      name: friend.name,
+      via: currentUserId,
+      index,
+      total: friends.length,
+      connectionCount: neighbours.length,
+    });
+
+    neighbours.forEach(potentialFriendId => {
+      events.push({ type: 'inspect-edge', from: friend.user_id, to: potentialFriendId, name: nameOf(potentialFriendId) });
+
+      if (friendIds.has(potentialFriendId)) {
+        events.push({
+          type: 'skip-existing-friend',
+          nodeId: potentialFriendId,
+          name: nameOf(potentialFriendId),
+          via: friend.user_id,
+        });
+        return;
+      }
+
+      const mutualCount = (mutualCounts.get(potentialFriendId) || 0) + 1;
+      mutualCounts.set(potentialFriendId, mutualCount);
+      events.push({
+        type: 'found-candidate',
+        nodeId: potentialFriendId,
+        name: nameOf(potentialFriendId),
+        via: friend.user_id,
+        mutualCount,
+      });
+    });
+  });
+
+  events.push({ type: 'complete', candidateCount: mutualCounts.size, scorerLabel });
+
+  rankedSuggestions.slice(0, 10).forEach((s, i) => {
+    events.push({
+      type: 'rank-result',
+      nodeId: s.user_id,
+      name: s.name,
+      rank: i + 1,
+      mutualFriends: s.mutualFriends,
+      score: showScores ? s.score : null,
+    });
+  });
+
+  return events;
+};
+
+// Nodes and edges lit up once the first `position` events have played, with edge keys
+// in both directions as GraphVisualization expects. An edge being inspected only stays
+// lit while it's the current event.
+export const traversalHighlights = (events: TraversalEvent[], position: number) => {
+  const nodes = new Set<string>();
+  const links = new Set<string>();
+
+  const addLink = (a: string, b: string) => {
+    links.add(`${a}-${b}`);
+    links.add(`${b}-${a}`);
+  };
+
+  events.slice(0, position).forEach((event, index) => {
+    switch (event.type) {
+      case 'start':
+        nodes.add(event.nodeId);
+        break;
+      case 'visit-node':
+      case 'found-candidate':
+        nodes.add(event.nodeId);
+        addLink(event.via, event.nodeId);
+        break;
+      case 'inspect-edge':
+        if (index === position - 1) addLink(event.from, event.to);
+        break;
+    }
+  });
+
+  return { nodes, links };
+};
+
+// Serialized trace for the log's export button
+export const traversalToJSON = (events: TraversalEvent[], meta: Record<string, unknown> = {}) =>
+  JSON.stringify({ ...meta, exportedAt: new Date().toISOString(), events }, null, 2);
@@ -0,0 +1,402 @@
+import {
+  DIMMED_LINK_ALPHA,
+  DIMMED_NODE_ALPHA,
+  graphColors,
+  isDimmed,
+  touchesSelection,
+  type GraphNode,
+  type GraphScene,
+} from './graphScene';
+
+// WebGL2 renderer for large networks: every node shape is one instanced, antialiased circle
+// and every edge one instanced quad, so a frame is two draw calls however big the graph is.
+// Labels are not drawn here; see drawCanvasLabels for the culled overlay.
+
+export interface WebGLGraphRenderer {
+  render: (scene: GraphScene) => void;
+  dispose: () => void;
+}
+
+type RGBA = [number, number, number, number];
+
+const CIRCLE_VERTEX_SHADER = `#version 300 es
+in vec2 a_corner;
+in vec2 a_center;
+in float a_radius;
+in vec4 a_fill;
+in vec4 a_stroke;
+in float a_strokeWidth;
+uniform vec2 u_resolution;
+uniform vec3 u_camera;
+out vec2 v_local;
+out float v_radius;
+out vec4 v_fill;
+out vec4 v_stroke;
+out float v_strokeWidth;
+
+void main() {
+  // Leave a one-screen-pixel margin for the antialiased edge
+  float outer = a_radius + a_strokeWidth * 0.5 + 1.0 / u_camera.z;
+  vec2 world = a_center + a_corner * outer;
+  vec2 screen = world * u_camera.z + u_camera.xy;
+  vec2 clip = screen / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_local = a_corner * outer;
+  v_radius = a_radius;
+  v_fill = a_fill;
+  v_stroke = a_stroke;
+  v_strokeWidth = a_strokeWidth;
+}`;
+
+const CIRCLE_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in vec2 v_local;
+in float v_radius;
+in vec4 v_fill;
+in vec4 v_stroke;
+in float v_strokeWidth;
+out vec4 fragColor;
+
+void main() {
+  float d = length(v_local);
+  float aa = fwidth(d);
+  float halfStroke = v_strokeWidth * 0.5;
+  float edge = v_radius + halfStroke;
+  float coverage = 1.0 - smoothstep(edge - aa, edge + aa, d);
+  float strokeMix = v_strokeWidth > 0.0
+    ? smoothstep(v_radius - halfStroke - aa, v_radius - halfStroke + aa, d)
+    : 0.0;
+  vec4 color = mix(v_fill, v_stroke, strokeMix);
+  float alpha = color.a * coverage;
+  fragColor = vec4(color.rgb * alpha, alpha);
+}`;
+
+const SEGMENT_VERTEX_SHADER = `#version 300 es
+in vec2 a_corner;
+in vec2 a_start;
+in vec2 a_end;
+in float a_width;
+in vec4 a_color;
+uniform vec2 u_resolution;
+uniform vec3 u_camera;
+out float v_across;
+out float v_halfWidth;
+out vec4 v_color;
+
+void main() {
+  vec2 delta = a_end - a_start;
+  vec2 dir = length(delta) > 0.0 ? normalize(delta) : vec2(1.0, 0.0);
+  vec2 normal = vec2(-dir.y, dir.x);
+  float halfWidth = a_width * 0.5;
+  float extent = halfWidth + 1.0 / u_camera.z;
+  vec2 world = mix(a_start, a_end, a_corner.x) + normal * a_corner.y * extent;
+  vec2 screen = world * u_camera.z + u_camera.xy;
+  vec2 clip = screen / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_across = a_corner.y * extent;
+  v_halfWidth = halfWidth;
+  v_color = a_color;
+}`;
+
+const SEGMENT_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in float v_across;
+in float v_halfWidth;
+in vec4 v_color;
+out vec4 fragColor;
+
+void main() {
+  float aa = fwidth(v_across);
+  float coverage = 1.0 - smoothstep(v_halfWidth - aa, v_halfWidth + aa, abs(v_across));
+  float alpha = v_color.a * coverage;
+  fragColor = vec4(v_color.rgb * alpha, alpha);
+}`;
+
+// Floats per instance: center(2) radius(1) fill(4) stroke(4) strokeWidth(1)
+const CIRCLE_STRIDE = 12;
+// Floats per instance: start(2) end(2) width(1) color(4)
+const SEGMENT_STRIDE = 9;
+
+const colorCache = new Map<string, RGBA>();
+
+// Parses the '#rrggbb' and 'rgba(r, g, b, a)' strings used in graphColors and node colors
+const parseColor = (color: string): RGBA => {
+  const cached = colorCache.get(color);
+  if (cached) return cached;
+
+  let rgba: RGBA = [1, 1, 1, 1];
+  if (color.startsWith('#')) {
+    const hex = color.length === 4
+      ? color.slice(1).split('').map(c => c + c).join('')
+      : color.slice(1, 7);
+    rgba = [
+      parseInt(hex.slice(0, 2), 16) / 255,
+      parseInt(hex.slice(2, 4), 16) / 255,
+      parseInt(hex.slice(4, 6), 16) / 255,
+      1,
+    ];
+  } else {
+    const parts = color.match(/[\d.]+/g)?.map(Number) || [];
+    if (parts.length >= 3) {
+      rgba = [parts[0] / 255, parts[1] / 255, parts[2] / 255, parts[3] ?? 1];
+    }
+  }
+
+  colorCache.set(color, rgba);
+  return rgba;
+};
+
+const withAlpha = ([r, g, b, a]: RGBA, alpha: number): RGBA => [r, g, b, a * alpha];
+
+const TRANSPARENT: RGBA = [0, 0, 0, 0];
+
+const compileProgram = (gl: WebGL2RenderingContext, vertexSource: string, fragmentSource: string) => {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type);
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(gl.getShaderInfoLog(shader) || 'shader compile failed');
+    }
+    return shader;
+  };
+
+  const program = gl.createProgram();
+  const vertexShader = compile(gl.VERTEX_SHADER, vertexSource);
+  const fragmentShader = compile(gl.FRAGMENT_SHADER, fragmentSource);
+  gl.attachShader(program, vertexShader);
+  gl.attachShader(program, fragmentShader);
+  gl.linkProgram(program);
+  gl.deleteShader(vertexShader);
+  gl.deleteShader(fragmentShader);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(gl.getProgramInfoLog(program) || 'program link failed');
+  }
+  return program;
+};
+
+// Binds a static per-vertex corner buffer plus an interleaved per-instance buffer to a VAO
+const createInstancedVao = (
+  gl: WebGL2RenderingContext,
+  program: WebGLProgram,
+  corners: number[],
+  attributes: Array<{ name: string; size: number }>
+) => {
+  const vao = gl.createVertexArray();
+  gl.bindVertexArray(vao);
+
+  const cornerBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(corners), gl.STATIC_DRAW);
+  const cornerLocation = gl.getAttribLocation(program, 'a_corner');
+  gl.enableVertexAttribArray(cornerLocation);
+  gl.vertexAttribPointer(cornerLocation, 2, gl.FLOAT, false, 0, 0);
+
+  const instanceBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+  const stride = attributes.reduce((sum, attribute) => sum + attribute.size, 0) * 4;
+  let offset = 0;
+  attributes.forEach(({ name, size }) => {
+    const location = gl.getAttribLocation(program, name);
+    gl.enableVertexAttribArray(location);
+    gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset);
+    gl.vertexAttribDivisor(location, 1);
+    offset += size * 4;
+  });
+
+  gl.bindVertexArray(null);
+  return { vao, buffers: [cornerBuffer, instanceBuffer], instanceBuffer };
+};
+
+// Growable float buffer reused between frames
+const createInstanceWriter = (stride: number) => {
+  let data = new Float32Array(stride * 256);
+  let count = 0;
+
+  return {
+    reset: () => {
+      count = 0;
+    },
+    push: (values: number[]) => {
+      if ((count + 1) * stride > data.length) {
+        const grown = new Float32Array(data.length * 2);
+        grown.set(data);
+        data = grown;
+      }
+      data.set(values, count * stride);
+      count += 1;
+    },
+    get count() {
+      return count;
+    },
+    view: () => data.subarray(0, count * stride),
+  };
+};
+
+let webglSupport: boolean | undefined;
+
+export const isWebGLAvailable = () => {
+  if (webglSupport === undefined) {
+    try {
+      webglSupport = !!document.createElement('canvas').getContext('webgl2');
+    } catch {
+      webglSupport = false;
+    }
+  }
+  return webglSupport;
+};
+
+export const createWebGLGraphRenderer = (canvas: HTMLCanvasElement): WebGLGraphRenderer | null => {
+  const gl = canvas.getContext('webgl2', { antialias: false, premultipliedAlpha: true });
+  if (!gl) return null;
+
+  let circleProgram: WebGLProgram;
+  let segmentProgram: WebGLProgram;
+  try {
+    circleProgram = compileProgram(gl, CIRCLE_VERTEX_SHADER, CIRCLE_FRAGMENT_SHADER);
+    segmentProgram = compileProgram(gl, SEGMENT_VERTEX_SHADER, SEGMENT_FRAGMENT_SHADER);
+  } catch (error) {
+    console.error('WebGL graph renderer unavailable:', error);
+    return null;
+  }
+
+  // Two triangles covering the unit quad
+  const circles = createInstancedVao(gl, circleProgram, [-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1], [
+    { name: 'a_center', size: 2 },
+    { name: 'a_radius', size: 1 },
+    { name: 'a_fill', size: 4 },
+    { name: 'a_stroke', size: 4 },
+    { name: 'a_strokeWidth', size: 1 },
+  ]);
+  const segments = createInstancedVao(gl, segmentProgram, [0, -1, 1, -1, 0, 1, 0, 1, 1, -1, 1, 1], [
+    { name: 'a_start', size: 2 },
+    { name: 'a_end', size: 2 },
+    { name: 'a_width', size: 1 },
+    { name: 'a_color', size: 4 },
+  ]);
+
+  const circleData = createInstanceWriter(CIRCLE_STRIDE);
+  const segmentData = createInstanceWriter(SEGMENT_STRIDE);
+
+  const pushCircle = (x: number, y: number, radius: number, fill: RGBA, stroke: RGBA, strokeWidth: number) => {
+    circleData.push([x, y, radius, ...fill, ...stroke, strokeWidth]);
+  };
+
+  const buildSegments = (scene: GraphScene) => {
+    const { focus, highlightLinks, pathLinks } = scene;
+    segmentData.reset();
+
+    scene.links.forEach(link => {
+      const source = link.source as GraphNode;
+      const target = link.target as GraphNode;
+      if (source.x === undefined || target.x === undefined) return;
+
+      const linkKey1 = `${source.id}-${target.id}`;
+      const linkKey2 = `${target.id}-${source.id}`;
+      const alpha = focus.selectedId && !touchesSelection(focus, link) ? DIMMED_LINK_ALPHA : 1;
+
+      let color = parseColor(graphColors.edge);
+      let width = 3;
+      if (pathLinks.has(linkKey1)) {
+        color = parseColor(graphColors.path);
+        width = 5;
+      } else if (highlightLinks.has(linkKey1) || highlightLinks.has(linkKey2)) {
+        color = parseColor(graphColors.highlight);
+        width = 5;
+      }
+
+      segmentData.push([source.x, source.y, target.x, target.y, width, ...withAlpha(color, alpha)]);
+    });
+  };
+
+  const buildCircles = (scene: GraphScene) => {
+    const { focus, highlightNodes, pathNodes, frontierNodes, activeNodeId } = scene;
+    const border = parseColor(graphColors.border);
+    circleData.reset();
+
+    scene.nodes.forEach(node => {
+      if (node.x === undefined) return;
+
+      const alpha = isDimmed(focus, node.id) ? DIMMED_NODE_ALPHA : 1;
+      const isHighlighted = highlightNodes.has(node.id);
+
+      if (node.id === focus.selectedId || node.id === focus.hoveredId) {
+        const ring: RGBA = node.id === focus.selectedId ? [1, 1, 1, 1] : [1, 1, 1, 0.6];
+        pushCircle(node.x, node.y, node.size + 4, TRANSPARENT, withAlpha(ring, alpha), 2);
+      }
+
+      if (pathNodes.has(node.id)) {
+        pushCircle(node.x, node.y, node.size + 6, TRANSPARENT, withAlpha(parseColor(graphColors.path), alpha), 3);
+      }
+
+      if (frontierNodes.has(node.id)) {
+        pushCircle(node.x, node.y, node.size + 4, TRANSPARENT, withAlpha(parseColor(graphColors.frontier), alpha), 2);
+      }
+
+      if (node.id === activeNodeId) {
+        pushCircle(node.x, node.y, node.size + 9, TRANSPARENT, withAlpha([1, 1, 1, 1], alpha), 3);
+      }
+
+      if (isHighlighted) {
+        pushCircle(node.x, node.y, node.size + 6, withAlpha(parseColor(graphColors.highlightGlow), alpha), TRANSPARENT, 0);
+      }
+
+      const fill = parseColor(isHighlighted ? graphColors.highlight : node.color);
+      const stroke: RGBA = isHighlighted ? [1, 1, 1, 1] : border;
+      pushCircle(node.x, node.y, node.size, withAlpha(fill, alpha), withAlpha(stroke, alpha), isHighlighted ? 3 : 2);
+
+      if (node.type === 'mutual' && !isHighlighted) {
+        pushCircle(
+          node.x + node.size * 0.6,
+          node.y - node.size * 0.6,
+          4,
+          withAlpha(parseColor(graphColors.mutual), alpha),
+          TRANSPARENT,
+          0
+        );
+      }
+    });
+  };
+
+  const draw = (
+    program: WebGLProgram,
+    target: typeof circles,
+    data: ReturnType<typeof createInstanceWriter>,
+    scene: GraphScene
+  ) => {
+    if (data.count === 0) return;
+
+    gl.useProgram(program);
+    gl.uniform2f(gl.getUniformLocation(program, 'u_resolution'), scene.width, scene.height);
+    gl.uniform3f(gl.getUniformLocation(program, 'u_camera'), scene.camera.x, scene.camera.y, scene.camera.k);
+    gl.bindVertexArray(target.vao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, target.instanceBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, data.view(), gl.DYNAMIC_DRAW);
+    gl.drawArraysInstanced(gl.TRIANGLES, 0, 6, data.count);
+    gl.bindVertexArray(null);
+  };
+
+  const render = (scene: GraphScene) => {
+    gl.viewport(0, 0, canvas.width, canvas.height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+    buildSegments(scene);
+    buildCircles(scene);
+    draw(segmentProgram, segments, segmentData, scene);
+    draw(circleProgram, circles, circleData, scene);
+  };
+
+  const dispose = () => {
+    [circles, segments].forEach(({ vao, buffers }) => {
+      gl.deleteVertexArray(vao);
+      buffers.forEach(buffer => gl.deleteBuffer(buffer));
+    });
+    gl.deleteProgram(circleProgram);
+    gl.deleteProgram(segmentProgram);
+  };
+
+  return { render, dispose };
+};
@@ -1,21 +1,50 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { UserCard } from '@/components/UserCard';
 import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { GraphVisualization } from '@/components/GraphVisualization';
-import { LogOut, Users, UserPlus, Sparkles } from 'lucide-react';
+import { TraversalPlayback } from '@/components/TraversalPlayback';
+import { TraversalLog } from '@/components/TraversalLog';
+import { AlgorithmExplorer } from '@/components/AlgorithmExplorer';
+import { NetworkInsights } from '@/components/NetworkInsights';
+import { SettingsSheet } from '@/components/SettingsSheet';
+import { ConnectionPath, type ConnectionChain } from '@/components/ConnectionPath';
+import {
+  buildAdjacency,
+  rankCandidates,
+  suggestionScorers,
+  type SuggestionStrategy,
+} from '@/lib/suggestionScorers';
+import { traceSuggestionTraversal, traversalEventDuration } from '@/lib/traversal';
+import { useTraversalPlayback } from '@/hooks/useTraversalPlayback';
+import { algorithmStepDuration, runAlgorithm, type AlgorithmId, type AlgorithmStep } from '@/lib/graphAlgorithms';
+import type { CommunityLabel } from '@/lib/communities';
+import { computeNetworkInsights } from '@/lib/networkInsights';
+import { withSignedAvatars } from '@/lib/avatars';
+import { degreeBucket, degreeBuckets, degreeLabels, type DegreeBucket } from '@/lib/degrees';
+import {
+  defaultFieldVisibility,
+  type ProfileField,
+  type ProfileVisibility,
+} from '@/lib/profilePrivacy';
+import { LogOut, Users, UserPlus, Sparkles, Inbox, X, Network, BarChart3 } from 'lucide-react';
 import { toast } from 'sonner';
 
 interface Profile {
   id: string;
   user_id: string;
   name: string;
-  email: string;
+  email: string | null;
   bio: string | null;
+  avatar_url: string | null;
 }
 
 interface Friendship {
@@ -26,20 +55,102 @@ interface Friendship {
 
 interface FriendSuggestion extends Profile {
   mutualFriends: number;
+  mutualFriendIds: string[];
 }
 
+interface ExplainedSuggestion extends FriendSuggestion {
+  score: number;
+  // The friends bridging to this suggestion, and the me → friend → suggestion chains through them
+  mutualFriendProfiles: Profile[];
+  paths: string[][];
+}
+
+interface SuggestionDismissal {
+  id: string;
+  dismissed_user_id: string;
+  snoozed_until: string | null;
+  profile: Profile;
+}
+
+interface Block {
+  id: string;
+  blocked_id: string;
+  profile: Profile;
+}
+
+interface GraphFocus {
+  label: string;
+  paths: string[][];
+}
+
+interface Connection {
+  target: Profile;
+  paths: ConnectionChain[];
+}
+
+interface FriendRequest {
+  id: string;
+  sender_id: string;
+  recipient_id: string;
+  status: 'pending' | 'accepted' | 'declined' | 'cancelled';
+  created_at: string;
+  responded_at: string | null;
+}
+
+interface FriendRequestWithProfile extends FriendRequest {
+  // The other side of the request: the sender for incoming, the recipient for outgoing
+  profile: Profile;
+}
+
+const SUGGESTIONS_PAGE_SIZE = 24;
+// Profiles per profile_directory lookup by id, to keep the request URL short
+const PROFILE_LOOKUP_BATCH = 100;
+// The server's top candidates by mutual count, re-ranked by the selected scorer; one
+// get_friend_suggestions call, the most it returns at once
+const SUGGESTIONS_RANK_WINDOW = 100;
+const SNOOZE_DAYS = 30;
+
 const Dashboard = () => {
   const { user, signOut } = useAuth();
+  const navigate = useNavigate();
   const [profile, setProfile] = useState<Profile | null>(null);
   const [friends, setFriends] = useState<Profile[]>([]);
   const [suggestions, setSuggestions] = useState<FriendSuggestion[]>([]);
+  const [suggestionsTotal, setSuggestionsTotal] = useState(0);
+  // How many of the ranked suggestions are listed
+  const [visibleSuggestionCount, setVisibleSuggestionCount] = useState(SUGGESTIONS_PAGE_SIZE);
+  const [loadingMoreSuggestions, setLoadingMoreSuggestions] = useState(false);
+  // The everyone tab's directory, only loaded once that tab is opened
   const [allUsers, setAllUsers] = useState<Profile[]>([]);
+  const [allUsersLoaded, setAllUsersLoaded] = useState(false);
+  // Profiles of everyone in the loaded network, for the graph and its names
+  const [networkProfiles, setNetworkProfiles] = useState<Profile[]>([]);
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [showTraversal, setShowTraversal] = useState(false);
-  const [traversalLogs, setTraversalLogs] = useState<string[]>([]);
   const [allFriendships, setAllFriendships] = useState<Friendship[]>([]);
-  const [isAnimating, setIsAnimating] = useState(false);
+  // Friendships of people expanded in the graph beyond the two-hop network, by person
+  const [expansions, setExpansions] = useState<Map<string, Friendship[]>>(new Map());
+  const [expandingId, setExpandingId] = useState<string | null>(null);
+  const [strategy, setStrategy] = useState<SuggestionStrategy>('common-neighbors');
+  const [graphMode, setGraphMode] = useState<'trace' | 'explorer'>('trace');
+  const [explorerAlgorithm, setExplorerAlgorithm] = useState<AlgorithmId>('bfs');
+  // Source defaults to me once the user is known
+  const [explorerSource, setExplorerSource] = useState<string | null>(null);
+  const [explorerTarget, setExplorerTarget] = useState<string | null>(null);
+  const [graphFocus, setGraphFocus] = useState<GraphFocus | null>(null);
+  const [dismissals, setDismissals] = useState<SuggestionDismissal[]>([]);
+  const [blocks, setBlocks] = useState<Block[]>([]);
+  const [communityLabels, setCommunityLabels] = useState<CommunityLabel[]>([]);
+  const [activeTab, setActiveTab] = useState('suggestions');
+  const [connection, setConnection] = useState<Connection | null>(null);
+  const [degrees, setDegrees] = useState<Map<string, number>>(new Map());
+  const [degreeFilter, setDegreeFilter] = useState<DegreeBucket | 'all'>('all');
+  const [everyoneSort, setEveryoneSort] = useState<'name' | 'closest'>('closest');
+  const [fieldVisibility, setFieldVisibility] = useState(defaultFieldVisibility);
+  const graphRef = useRef<HTMLDivElement>(null);
+  const [incomingRequests, setIncomingRequests] = useState<FriendRequestWithProfile[]>([]);
+  const [outgoingRequests, setOutgoingRequests] = useState<FriendRequestWithProfile[]>([]);
 
   useEffect(() => {
     if (user) {
@@ -52,8 +163,15 @@ const Dashboard = () => {
     await Promise.all([
       loadProfile(),
       loadFriends(),
-      loadAllUsers(),
+      allUsersLoaded ? loadAllUsers() : null,
       loadAllFriendships(),
+      loadFriendRequests(),
+      loadSuggestions(),
+      loadDismissals(),
+      loadBlocks(),
+      loadDegrees(),
+      loadFieldVisibility(),
+      loadCommunityLabels(),
     ]);
     setLoading(false);
   };
@@ -73,6 +191,152 @@ const Dashboard = () => {
     }
 
     setAllFriendships(data || []);
+    await loadNetworkProfiles((data || []).flatMap(f => [f.user_id, f.friend_id]), true);
+  };
+
+  // Adds (or with `replace`, resets to) the profiles of the given people
+  const loadNetworkProfiles = async (ids: string[], replace = false) => {
+    if (!user) return;
+
+    const known = new Set(replace ? [] : networkProfiles.map(p => p.user_id));
+    const missing = Array.from(new Set(ids)).filter(id => id !== user.id && !known.has(id));
+
+    const batches = [];
+    for (let start = 0; start < missing.length; start += PROFILE_LOOKUP_BATCH) {
+      batches.push(
+        supabase
+          .from('profile_directory')
+          .select('*')
+          .in('user_id', missing.slice(start, start + PROFILE_LOOKUP_BATCH))
+      );
+    }
+    const results = await Promise.all(batches);
+
+    const failed = results.find(r => r.error);
+    if (failed) {
+      console.error('Failed to load network profiles:', failed.error);
+      toast.error('Failed to load network profiles');
+      return;
+    }
+
+    const loaded = await withSignedAvatars(results.flatMap(r => r.data || []));
+    setNetworkProfiles(prev => {
+      const byId = new Map((replace ? [] : prev).map(p => [p.user_id, p]));
+      loaded.forEach(p => byId.set(p.user_id, p));
+      return Array.from(byId.values());
+    });
+  };
+
+  const expandNode = async (nodeId: string) => {
+    setExpandingId(nodeId);
+
+    const { data, error } = await supabase.rpc('get_node_neighborhood', { p_node_id: nodeId });
+
+    setExpandingId(null);
+
+    if (error) {
+      console.error('Failed to expand network:', error);
+      toast.error('Failed to expand network');
+      return;
+    }
+
+    if (!data || data.length === 0) {
+      toast('nothing more to show here · their friend list may be private');
+      return;
+    }
+
+    setExpansions(prev => new Map(prev).set(nodeId, data));
+    await loadNetworkProfiles(data.map(f => f.friend_id));
+  };
+
+  const collapseNode = (nodeId: string) => {
+    setExpansions(prev => {
+      const next = new Map(prev);
+      next.delete(nodeId);
+
+      // Also drop expansions of people who were only in the graph through the collapsed one
+      const networkIds = new Set(allFriendships.flatMap(f => [f.user_id, f.friend_id]));
+      let changed = true;
+      while (changed) {
+        changed = false;
+        next.forEach((_, id) => {
+          const stillShown = networkIds.has(id) || Array.from(next.entries()).some(
+            ([otherId, edges]) => otherId !== id && edges.some(f => f.friend_id === id)
+          );
+          if (!stillShown) {
+            next.delete(id);
+            changed = true;
+          }
+        });
+      }
+
+      return next;
+    });
+  };
+
+  const expandedFriendships = useMemo(() => Array.from(expansions.values()).flat(), [expansions]);
+
+  const loadDegrees = async () => {
+    if (!user) return;
+
+    // One BFS in Postgres gives the hop distance to everyone reachable
+    const { data, error } = await supabase.rpc('get_degrees_of_separation');
+
+    if (error) {
+      console.error('Failed to load degrees of separation:', error);
+      toast.error('Failed to load degrees of separation');
+      return;
+    }
+
+    setDegrees(new Map((data || []).map(row => [row.user_id, row.degree])));
+  };
+
+  const loadFriendRequests = async () => {
+    if (!user) return;
+
+    const { data: requestsData, error } = await supabase
+      .from('friend_requests')
+      .select('*')
+      .eq('status', 'pending')
+      .or(`sender_id.eq.${user.id},recipient_id.eq.${user.id}`);
+
+    if (error) {
+      toast.error('Failed to load friend requests');
+      return;
+    }
+
+    const otherIds = requestsData.map(r =>
+      r.sender_id === user.id ? r.recipient_id : r.sender_id
+    );
+
+    if (otherIds.length === 0) {
+      setIncomingRequests([]);
+      setOutgoingRequests([]);
+      return;
+    }
+
+    const { data: profilesData, error: profilesError } = await supabase
+      .from('profile_directory')
+      .select('*')
+      .in('user_id', otherIds);
+
+    if (profilesError) {
+      toast.error('Failed to load friend request profiles');
+      return;
+    }
+
+    const profiles = await withSignedAvatars(profilesData);
+
+    const withProfiles = requestsData
+      .map((r): FriendRequestWithProfile | null => {
+        const otherId = r.sender_id === user.id ? r.recipient_id : r.sender_id;
+        const otherProfile = profiles.find(p => p.user_id === otherId);
+        return otherProfile ? { ...r, profile: otherProfile } : null;
+      })
+      .filter((r): r is FriendRequestWithProfile => r !== null);
+
+    setIncomingRequests(withProfiles.filter(r => r.recipient_id === user.id));
+    setOutgoingRequests(withProfiles.filter(r => r.sender_id === user.id));
   };
 
   const loadProfile = async () => {
@@ -89,7 +353,51 @@ const Dashboard = () => {
       return;
     }
     
-    setProfile(data);
+    const [signedProfile] = await withSignedAvatars([data]);
+    setProfile(signedProfile);
+  };
+
+  const loadFieldVisibility = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('profile_field_visibility')
+      .select('*')
+      .eq('user_id', user.id);
+
+    if (error) {
+      toast.error('Failed to load privacy settings');
+      return;
+    }
+
+    const saved = { ...defaultFieldVisibility };
+    data.forEach(row => {
+      if (row.field in saved) {
+        saved[row.field as ProfileField] = row.visibility;
+      }
+    });
+    setFieldVisibility(saved);
+  };
+
+  const updateFieldVisibility = async (field: ProfileField, visibility: ProfileVisibility) => {
+    if (!user) return;
+
+    const previous = fieldVisibility;
+    setFieldVisibility(prev => ({ ...prev, [field]: visibility }));
+
+    const { error } = await supabase
+      .from('profile_field_visibility')
+      .upsert(
+        { user_id: user.id, field, visibility, updated_at: new Date().toISOString() },
+        { onConflict: 'user_id,field' }
+      );
+
+    if (error) {
+      toast.error('Failed to update privacy settings');
+      setFieldVisibility(previous);
+    } else {
+      toast.success('Privacy settings updated');
+    }
   };
 
   const loadFriends = async () => {
@@ -115,7 +423,7 @@ const Dashboard = () => {
     }
 
     const { data: friendsData, error: friendsError } = await supabase
-      .from('profiles')
+      .from('profile_directory')
       .select('*')
       .in('user_id', friendIds);
 
@@ -124,14 +432,14 @@ const Dashboard = () => {
       return;
     }
 
-    setFriends(friendsData || []);
+    setFriends(await withSignedAvatars(friendsData || []));
   };
 
   const loadAllUsers = async () => {
     if (!user) return;
 
     const { data, error } = await supabase
-      .from('profiles')
+      .from('profile_directory')
       .select('*')
       .neq('user_id', user.id);
 
@@ -140,114 +448,574 @@ const Dashboard = () => {
       return;
     }
 
-    setAllUsers(data || []);
+    setAllUsers(await withSignedAvatars(data || []));
+    setAllUsersLoaded(true);
   };
 
-  useEffect(() => {
-    if (friends.length > 0 && allUsers.length > 0) {
-      calculateSuggestions();
+  const changeTab = (tab: string) => {
+    setActiveTab(tab);
+    if (tab === 'all' && !allUsersLoaded) loadAllUsers();
+  };
+
+  const fetchSuggestions = async (offset: number, limit: number) => {
+    const { data, error } = await supabase.rpc('get_friend_suggestions', {
+      p_limit: limit,
+      p_offset: offset,
+    });
+
+    if (error) throw error;
+
+    const page: FriendSuggestion[] = await withSignedAvatars(
+      (data || []).map(({ mutual_friends, mutual_friend_ids, total_count, ...suggestion }) => ({
+        ...suggestion,
+        mutualFriends: mutual_friends,
+        mutualFriendIds: mutual_friend_ids,
+      }))
+    );
+    return { page, total: data && data.length > 0 ? data[0].total_count : offset };
+  };
+
+  // Loads the rank window up front so the scorer picks the first pages from it; later pages
+  // are fetched on "show more"
+  const loadSuggestions = async () => {
+    if (!user) return;
+
+    try {
+      const { page, total } = await fetchSuggestions(0, SUGGESTIONS_RANK_WINDOW);
+
+      setSuggestions(page);
+      setSuggestionsTotal(total);
+      setVisibleSuggestionCount(SUGGESTIONS_PAGE_SIZE);
+    } catch (error) {
+      console.error('Failed to load friend suggestions:', error);
+      toast.error('Failed to load suggestions');
+    }
+  };
+
+  // Rank the window with the selected scorer over the ego network adjacency; anything loaded
+  // past it keeps the server's order, so "show more" never reshuffles what's already listed
+  const rankedSuggestions = useMemo((): ExplainedSuggestion[] => {
+    if (!user) return [];
+    const adjacency = buildAdjacency(allFriendships);
+    const friendsById = new Map(friends.map(f => [f.user_id, f]));
+    const scorer = suggestionScorers[strategy];
+
+    return [
+      ...rankCandidates(suggestions.slice(0, SUGGESTIONS_RANK_WINDOW), adjacency, user.id, scorer),
+      ...suggestions
+        .slice(SUGGESTIONS_RANK_WINDOW)
+        .map(s => ({ ...s, score: scorer.score(adjacency, user.id, s.user_id) })),
+    ].map(s => {
+      const mutualFriendProfiles = s.mutualFriendIds
+        .map(id => friendsById.get(id))
+        .filter((f): f is Profile => f !== undefined);
+      return {
+        ...s,
+        mutualFriendProfiles,
+        paths: mutualFriendProfiles.map(f => [user.id, f.user_id, s.user_id]),
+      };
+    });
+  }, [user, suggestions, friends, allFriendships, strategy]);
+
+  const listedSuggestions = rankedSuggestions.slice(0, visibleSuggestionCount);
+
+  const showInGraph = (focus: GraphFocus) => {
+    setActiveTab('suggestions');
+    setGraphFocus(focus);
+    setShowTraversal(true);
+    setGraphMode('trace');
+    playback.stop();
+    explorerPlayback.stop();
+    // Wait for the graph to mount before scrolling to it
+    requestAnimationFrame(() => {
+      graphRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+  };
+
+  const loadDismissals = async () => {
+    if (!user) return;
+
+    // Expired snoozes no longer hide anyone, so only list the active ones
+    const { data: dismissalsData, error } = await supabase
+      .from('suggestion_dismissals')
+      .select('*')
+      .eq('user_id', user.id)
+      .or(`snoozed_until.is.null,snoozed_until.gt.${new Date().toISOString()}`)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      toast.error('Failed to load hidden suggestions');
+      return;
+    }
+
+    if (dismissalsData.length === 0) {
+      setDismissals([]);
+      return;
+    }
+
+    const { data: profilesData, error: profilesError } = await supabase
+      .from('profile_directory')
+      .select('*')
+      .in('user_id', dismissalsData.map(d => d.dismissed_user_id));
+
+    if (profilesError) {
+      toast.error('Failed to load hidden suggestion profiles');
+      return;
+    }
+
+    const profiles = await withSignedAvatars(profilesData);
+
+    setDismissals(
+      dismissalsData
+        .map((d): SuggestionDismissal | null => {
+          const dismissedProfile = profiles.find(p => p.user_id === d.dismissed_user_id);
+          return dismissedProfile ? { ...d, profile: dismissedProfile } : null;
+        })
+        .filter((d): d is SuggestionDismissal => d !== null)
+    );
+  };
+
+  const dismissSuggestion = async (suggestion: FriendSuggestion, snoozeDays: number | null) => {
+    if (!user) return;
+
+    setActionLoading(suggestion.user_id);
+
+    const snoozedUntil = snoozeDays === null
+      ? null
+      : new Date(Date.now() + snoozeDays * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data, error } = await supabase
+      .from('suggestion_dismissals')
+      .upsert(
+        { user_id: user.id, dismissed_user_id: suggestion.user_id, snoozed_until: snoozedUntil },
+        { onConflict: 'user_id,dismissed_user_id' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      toast.error('Failed to hide suggestion');
+    } else {
+      setSuggestions(prev => prev.filter(s => s.user_id !== suggestion.user_id));
+      setSuggestionsTotal(prev => Math.max(prev - 1, 0));
+      toast.success(
+        snoozeDays === null ? `${suggestion.name} won't be suggested again` : `${suggestion.name} snoozed for ${snoozeDays} days`,
+        { action: { label: 'undo', onClick: () => undoDismissal(data.id, suggestion.user_id) } }
+      );
+      await loadDismissals();
+    }
+
+    setActionLoading(null);
+  };
+
+  // Called from the toast too, long after this render, so nothing here reads `dismissals`
+  const undoDismissal = async (dismissalId: string, dismissedUserId: string) => {
+    setActionLoading(dismissedUserId);
+
+    const { error } = await supabase
+      .from('suggestion_dismissals')
+      .delete()
+      .eq('id', dismissalId);
+
+    if (error) {
+      toast.error('Failed to restore suggestion');
     } else {
-      setSuggestions([]);
+      toast.success('Suggestion restored');
+      setDismissals(prev => prev.filter(d => d.id !== dismissalId));
+      await loadSuggestions();
+    }
+
+    setActionLoading(null);
+  };
+
+  const loadCommunityLabels = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('community_labels')
+      .select('id, name, member_ids')
+      .eq('user_id', user.id);
+
+    if (error) {
+      toast.error('Failed to load community names');
+      return;
     }
-  }, [friends, allUsers]);
 
-  const calculateSuggestions = async () => {
+    setCommunityLabels(data);
+  };
+
+  // Names a detected community, keeping its current members so the name can find the community
+  // again after the network changes. An empty name removes it.
+  const nameCommunity = async (memberIds: string[], name: string, labelId: string | null) => {
     if (!user) return;
 
-    const logs: string[] = [];
-    logs.push(`🚀 Starting BFS traversal for user: ${profile?.name || user.id}`);
-    
-    const friendIds = friends.map(f => f.user_id);
-    logs.push(`📊 Current friends: ${friends.length} total`);
-    
-    const suggestionsMap = new Map<string, number>();
-
-    if (friends.length === 0) {
-      // If no friends, suggest all available users
-      logs.push(`\n💡 No friends yet - showing all available users as suggestions`);
-      allUsers.forEach(u => {
-        suggestionsMap.set(u.user_id, 0);
-        logs.push(`  ✨ Suggesting: ${u.name}`);
-      });
+    if (!name) {
+      if (!labelId) return;
+      const { error } = await supabase.from('community_labels').delete().eq('id', labelId);
+      if (error) {
+        console.error('Error removing community name:', error);
+        toast.error('Failed to remove community name');
+        return;
+      }
+      setCommunityLabels(prev => prev.filter(label => label.id !== labelId));
+      return;
+    }
+
+    const { data, error } = labelId
+      ? await supabase
+          .from('community_labels')
+          .update({ name, member_ids: memberIds, updated_at: new Date().toISOString() })
+          .eq('id', labelId)
+          .select('id, name, member_ids')
+          .single()
+      : await supabase
+          .from('community_labels')
+          .insert({ user_id: user.id, name, member_ids: memberIds })
+          .select('id, name, member_ids')
+          .single();
+
+    if (error) {
+      console.error('Error saving community name:', error);
+      toast.error('Failed to save community name');
+      return;
+    }
+
+    setCommunityLabels(prev => [...prev.filter(label => label.id !== data.id), data]);
+  };
+
+  const loadBlocks = async () => {
+    if (!user) return;
+
+    const { data: blocksData, error } = await supabase
+      .from('blocks')
+      .select('*')
+      .eq('blocker_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      toast.error('Failed to load blocked users');
+      return;
+    }
+
+    if (blocksData.length === 0) {
+      setBlocks([]);
+      return;
+    }
+
+    const { data: profilesData, error: profilesError } = await supabase
+      .from('profile_directory')
+      .select('*')
+      .in('user_id', blocksData.map(b => b.blocked_id));
+
+    if (profilesError) {
+      toast.error('Failed to load blocked profiles');
+      return;
+    }
+
+    const profiles = await withSignedAvatars(profilesData);
+
+    setBlocks(
+      blocksData
+        .map((b): Block | null => {
+          const blockedProfile = profiles.find(p => p.user_id === b.blocked_id);
+          return blockedProfile ? { ...b, profile: blockedProfile } : null;
+        })
+        .filter((b): b is Block => b !== null)
+    );
+  };
+
+  const blockUser = async (blockedProfile: Profile) => {
+    if (!user) return;
+
+    setActionLoading(blockedProfile.user_id);
+
+    // The database removes any friendship and pending request between us
+    const { error } = await supabase
+      .from('blocks')
+      .insert({ blocker_id: user.id, blocked_id: blockedProfile.user_id });
+
+    if (error) {
+      toast.error('Failed to block user');
     } else {
-      logs.push(`\n🔍 Traversing friend network...`);
-
-      // For each of my friends, find their friends (BFS Level 1)
-      friendIds.forEach((friendId, index) => {
-        const friend = friends.find(f => f.user_id === friendId);
-        logs.push(`\n👤 Visiting node: ${friend?.name || friendId} (Friend ${index + 1}/${friendIds.length})`);
-        
-        const friendOfFriendships = allFriendships.filter(
-          f => f.user_id === friendId || f.friend_id === friendId
-        );
-
-        logs.push(`  → Checking ${friendOfFriendships.length} connections...`);
-
-        friendOfFriendships.forEach(f => {
-          const potentialFriendId = f.user_id === friendId ? f.friend_id : f.user_id;
-          const potentialFriend = allUsers.find(u => u.user_id === potentialFriendId);
-          
-          // Don't suggest yourself or existing friends
-          if (potentialFriendId !== user.id && !friendIds.includes(potentialFriendId)) {
-            const currentCount = suggestionsMap.get(potentialFriendId) || 0;
-            suggestionsMap.set(potentialFriendId, currentCount + 1);
-            logs.push(`  ✨ Found mutual connection: ${potentialFriend?.name || potentialFriendId} (${currentCount + 1} mutual)`);
-          }
-        });
-      });
+      toast.success(`${blockedProfile.name} blocked`);
+      await loadData();
+    }
+
+    setActionLoading(null);
+  };
+
+  const unblockUser = async (blockId: string) => {
+    const block = blocks.find(b => b.id === blockId);
+    setActionLoading(block?.blocked_id ?? blockId);
+
+    const { error } = await supabase
+      .from('blocks')
+      .delete()
+      .eq('id', blockId);
 
-      // Add remaining users who aren't friends as 0-mutual suggestions
-      allUsers.forEach(u => {
-        if (!friendIds.includes(u.user_id) && !suggestionsMap.has(u.user_id)) {
-          suggestionsMap.set(u.user_id, 0);
-          logs.push(`  💫 Also suggesting: ${u.name} (no mutual friends)`);
-        }
+    if (error) {
+      toast.error('Failed to unblock user');
+    } else {
+      toast.success(block ? `${block.profile.name} unblocked` : 'User unblocked');
+      await loadData();
+    }
+
+    setActionLoading(null);
+  };
+
+  // People I blocked stay readable to me (for the settings list) but are hidden everywhere else
+  const visibleUsers = useMemo(() => {
+    const blockedIds = new Set(blocks.map(b => b.blocked_id));
+    return allUsers.filter(u => !blockedIds.has(u.user_id));
+  }, [allUsers, blocks]);
+
+  const visibleNetworkProfiles = useMemo(() => {
+    const blockedIds = new Set(blocks.map(b => b.blocked_id));
+    return networkProfiles.filter(u => !blockedIds.has(u.user_id));
+  }, [networkProfiles, blocks]);
+
+  const showConnection = async (target: Profile) => {
+    setActionLoading(target.user_id);
+
+    const { data, error } = await supabase.rpc('get_connection_paths', {
+      p_target_id: target.user_id,
+    });
+
+    if (error) {
+      console.error('Failed to find connection path:', error);
+      toast.error('Failed to find how you are connected');
+    } else {
+      setConnection({
+        target,
+        paths: (data || []).map(row => ({ ids: row.path, names: row.names })),
       });
     }
 
-    logs.push(`\n✅ Traversal complete!`);
-    logs.push(`📈 Found ${suggestionsMap.size} potential friends`);
+    setActionLoading(null);
+  };
 
-    // Convert to array and sort by mutual friends (highest first)
-    const suggestionsWithMutual: FriendSuggestion[] = Array.from(suggestionsMap.entries())
-      .map(([userId, mutualCount]) => {
-        const userProfile = allUsers.find(u => u.user_id === userId);
-        return userProfile ? { ...userProfile, mutualFriends: mutualCount } : null;
-      })
-      .filter((s): s is FriendSuggestion => s !== null)
-      .sort((a, b) => b.mutualFriends - a.mutualFriends);
+  const getDegree = (userId: string) => degrees.get(userId) ?? null;
+
+  const everyone = useMemo(() => {
+    const filtered = degreeFilter === 'all'
+      ? visibleUsers
+      : visibleUsers.filter(u => degreeBucket(degrees.get(u.user_id) ?? null) === degreeFilter);
+
+    if (everyoneSort === 'name') {
+      return [...filtered].sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    // Closest first, unconnected people last
+    return [...filtered].sort((a, b) =>
+      (degrees.get(a.user_id) ?? Infinity) - (degrees.get(b.user_id) ?? Infinity) ||
+      a.name.localeCompare(b.name)
+    );
+  }, [visibleUsers, degrees, degreeFilter, everyoneSort]);
+
+  const loadMoreSuggestions = async () => {
+    const nextCount = visibleSuggestionCount + SUGGESTIONS_PAGE_SIZE;
+
+    // Past the loaded candidates, fetch the next server page
+    if (nextCount > suggestions.length && suggestions.length < suggestionsTotal) {
+      setLoadingMoreSuggestions(true);
+      try {
+        const { page, total } = await fetchSuggestions(suggestions.length, SUGGESTIONS_PAGE_SIZE);
+        setSuggestions(prev => [...prev, ...page]);
+        setSuggestionsTotal(total);
+      } catch (error) {
+        console.error('Failed to load friend suggestions:', error);
+        toast.error('Failed to load suggestions');
+      }
+      setLoadingMoreSuggestions(false);
+    }
+
+    setVisibleSuggestionCount(nextCount);
+  };
+
+  const networkNames = useMemo(
+    () => new Map(visibleNetworkProfiles.map(u => [u.user_id, u.name])),
+    [visibleNetworkProfiles]
+  );
+
+  const traversalEvents = useMemo(() => {
+    if (!user || friends.length === 0) return [];
+
+    return traceSuggestionTraversal({
+      currentUserId: user.id,
+      currentUserName: profile?.name || user.id,
+      friends,
+      friendships: allFriendships,
+      names: networkNames,
+      rankedSuggestions,
+      scorerLabel: suggestionScorers[strategy].label,
+      showScores: strategy !== 'common-neighbors',
+    });
+  }, [user, profile, friends, allFriendships, networkNames, rankedSuggestions, strategy]);
+
+  const playback = useTraversalPlayback(traversalEvents, traversalEventDuration);
+
+  const networkAdjacency = useMemo(() => buildAdjacency(allFriendships), [allFriendships]);
+
+  // Only worked out while the insights tab is open; betweenness is the slow part
+  const insights = useMemo(
+    () => (user && activeTab === 'insights' ? computeNetworkInsights(networkAdjacency, user.id) : null),
+    [user, activeTab, networkAdjacency]
+  );
+
+  // Everyone in the loaded network the explorer can start from or search for, me first
+  const explorerPeople = useMemo(() => {
+    if (!user) return [];
+    const others = Array.from(networkAdjacency.keys())
+      .filter(id => id !== user.id && networkNames.has(id))
+      .map(id => ({ user_id: id, name: networkNames.get(id) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return [{ user_id: user.id, name: `${profile?.name || 'you'} (you)` }, ...others];
+  }, [user, profile, networkAdjacency, networkNames]);
+
+  const explorerNames = useMemo(
+    () => new Map(explorerPeople.map(person => [person.user_id, person.name])),
+    [explorerPeople]
+  );
+
+  const explorerSteps = useMemo((): AlgorithmStep[] => {
+    if (!user || graphMode !== 'explorer') return [];
 
-    logs.push(`\n🎯 Top suggestions ranked by mutual connections:`);
-    suggestionsWithMutual.slice(0, 10).forEach((s, i) => {
-      logs.push(`  ${i + 1}. ${s.name} - ${s.mutualFriends} mutual friend${s.mutualFriends !== 1 ? 's' : ''}`);
+    return runAlgorithm(explorerAlgorithm, {
+      adjacency: networkAdjacency,
+      source: explorerSource ?? user.id,
+      target: explorerTarget,
+      nameOf: id => explorerNames.get(id) || id,
     });
+  }, [user, graphMode, explorerAlgorithm, explorerSource, explorerTarget, networkAdjacency, explorerNames]);
+
+  const explorerStepDuration = useCallback(
+    (step: AlgorithmStep) => algorithmStepDuration(explorerAlgorithm, step),
+    [explorerAlgorithm]
+  );
+
+  const explorerPlayback = useTraversalPlayback(explorerSteps, explorerStepDuration);
+
+  // Before playback starts the explorer shows its opening snapshot
+  const explorerStep = explorerSteps.length > 0
+    ? explorerSteps[Math.max(0, explorerPlayback.position - 1)]
+    : null;
 
-    setSuggestions(suggestionsWithMutual);
-    setTraversalLogs(logs);
+  const changeGraphMode = (mode: 'trace' | 'explorer') => {
+    setGraphMode(mode);
+    if (mode === 'explorer') {
+      playback.pause();
+      explorerPlayback.restart();
+    } else {
+      explorerPlayback.stop();
+    }
   };
 
-  const addFriend = async (friendId: string) => {
+  const sendFriendRequest = async (recipientId: string) => {
     if (!user) return;
     
-    setActionLoading(friendId);
-    
+    setActionLoading(recipientId);
+
+    // If they already asked me, adding them accepts their request; a second request
+    // would only fail on the one-pending-request-per-pair index
+    const { data: incoming } = await supabase
+      .from('friend_requests')
+      .select('id')
+      .eq('sender_id', recipientId)
+      .eq('recipient_id', user.id)
+      .eq('status', 'pending')
+      .maybeSingle();
+
+    if (incoming) {
+      const { error: acceptError } = await supabase.rpc('accept_friend_request', {
+        p_request_id: incoming.id,
+      });
+
+      if (acceptError) {
+        toast.error('Failed to accept friend request');
+      } else {
+        const name = [...networkProfiles, ...allUsers].find(u => u.user_id === recipientId)?.name;
+        toast.success(name ? `You and ${name} are now friends!` : 'You are now friends!');
+        await loadData();
+      }
+
+      setActionLoading(null);
+      return;
+    }
+
     const { error } = await supabase
-      .from('friendships')
-      .insert([
-        { user_id: user.id, friend_id: friendId },
-        { user_id: friendId, friend_id: user.id }, // Bidirectional friendship
-      ]);
+      .from('friend_requests')
+      .insert({ sender_id: user.id, recipient_id: recipientId });
 
     if (error) {
-      toast.error('Failed to add friend');
+      toast.error('Failed to send friend request');
     } else {
-      toast.success('Friend added successfully!');
-      await loadData();
+      toast.success('Friend request sent!');
+      await loadFriendRequests();
     }
     
     setActionLoading(null);
   };
 
+  const acceptFriendRequest = async (request: FriendRequestWithProfile) => {
+    setActionLoading(request.sender_id);
+
+    // Creates both directions of the friendship in the same transaction
+    const { error } = await supabase.rpc('accept_friend_request', {
+      p_request_id: request.id,
+    });
+
+    if (error) {
+      toast.error('Failed to accept friend request');
+    } else {
+      toast.success(`You and ${request.profile.name} are now friends!`);
+      await loadData();
+    }
+
+    setActionLoading(null);
+  };
+
+  const respondToFriendRequest = async (
+    request: FriendRequestWithProfile,
+    status: 'declined' | 'cancelled'
+  ) => {
+    setActionLoading(request.profile.user_id);
+
+    const { error } = await supabase
+      .from('friend_requests')
+      .update({ status })
+      .eq('id', request.id);
+
+    if (error) {
+      toast.error(status === 'declined' ? 'Failed to decline friend request' : 'Failed to cancel friend request');
+    } else {
+      toast.success(status === 'declined' ? 'Friend request declined' : 'Friend request cancelled');
+      await loadFriendRequests();
+    }
+
+    setActionLoading(null);
+  };
+
+  const getRequestProps = (otherUserId: string) => {
+    const incoming = incomingRequests.find(r => r.sender_id === otherUserId);
+    if (incoming) {
+      return {
+        requestStatus: 'incoming' as const,
+        onAcceptRequest: () => acceptFriendRequest(incoming),
+        onDeclineRequest: () => respondToFriendRequest(incoming, 'declined'),
+      };
+    }
+
+    const outgoing = outgoingRequests.find(r => r.recipient_id === otherUserId);
+    if (outgoing) {
+      return {
+        requestStatus: 'outgoing' as const,
+        onCancelRequest: () => respondToFriendRequest(outgoing, 'cancelled'),
+      };
+    }
+
+    return {};
+  };
+
   const removeFriend = async (friendId: string) => {
     if (!user) return;
     
@@ -300,6 +1068,28 @@ const Dashboard = () => {
                 </div>
               </div>
               <div className="flex items-center gap-2">
+                <Link
+                  to="/settings/profile"
+                  aria-label="edit profile"
+                  title="edit profile"
+                  className="rounded-full interactive-scale"
+                >
+                  <Avatar className="w-9 h-9 ring-2 ring-primary/20 hover:ring-primary/40 transition-all">
+                    {profile?.avatar_url && <AvatarImage src={profile.avatar_url} alt={profile.name} />}
+                    <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-primary-foreground text-xs font-bold">
+                      {profile?.name?.[0]?.toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                </Link>
+                <SettingsSheet
+                  fieldVisibility={fieldVisibility}
+                  onChangeFieldVisibility={updateFieldVisibility}
+                  dismissedSuggestions={dismissals}
+                  onUndoDismissal={undoDismissal}
+                  blockedUsers={blocks}
+                  onUnblock={unblockUser}
+                  loading={actionLoading}
+                />
                 <ThemeToggle />
                 <Button onClick={signOut} variant="outline" size="sm" className="interactive-scale">
                   <LogOut className="w-4 h-4 mr-2" />
@@ -311,11 +1101,11 @@ const Dashboard = () => {
         </Card>
 
         {/* Main Content */}
-        <Tabs defaultValue="suggestions" className="w-full">
-          <TabsList className="grid w-full grid-cols-3 glass-card p-1">
+        <Tabs value={activeTab} onValueChange={changeTab} className="w-full">
+          <TabsList className="grid w-full grid-cols-5 glass-card p-1">
             <TabsTrigger value="suggestions" className="interactive-scale data-[state=active]:bg-gradient-to-r data-[state=active]:from-primary data-[state=active]:to-accent data-[state=active]:text-primary-foreground">
               <UserPlus className="w-4 h-4 mr-2" />
-              for you ({suggestions.length})
+              for you ({suggestionsTotal})
             </TabsTrigger>
             <TabsTrigger value="friends" className="interactive-scale data-[state=active]:bg-gradient-to-r data-[state=active]:from-primary data-[state=active]:to-accent data-[state=active]:text-primary-foreground">
               <Users className="w-4 h-4 mr-2" />
@@ -323,7 +1113,15 @@ const Dashboard = () => {
             </TabsTrigger>
             <TabsTrigger value="all" className="interactive-scale data-[state=active]:bg-gradient-to-r data-[state=active]:from-primary data-[state=active]:to-accent data-[state=active]:text-primary-foreground">
               <Users className="w-4 h-4 mr-2" />
-              everyone ({allUsers.length})
+              everyone{allUsersLoaded && ` (${visibleUsers.length})`}
+            </TabsTrigger>
+            <TabsTrigger value="insights" className="interactive-scale data-[state=active]:bg-gradient-to-r data-[state=active]:from-primary data-[state=active]:to-accent data-[state=active]:text-primary-foreground">
+              <BarChart3 className="w-4 h-4 mr-2" />
+              insights
+            </TabsTrigger>
+            <TabsTrigger value="requests" className="interactive-scale data-[state=active]:bg-gradient-to-r data-[state=active]:from-primary data-[state=active]:to-accent data-[state=active]:text-primary-foreground">
+              <Inbox className="w-4 h-4 mr-2" />
+              requests ({incomingRequests.length})
             </TabsTrigger>
           </TabsList>
 
@@ -334,10 +1132,25 @@ const Dashboard = () => {
                   <div>
                     <CardTitle className="text-xl">✨ suggested connections</CardTitle>
                     <CardDescription>
-                      people with mutual vibes
+                      people with mutual vibes · {suggestionScorers[strategy].description}
                     </CardDescription>
                   </div>
                   <div className="flex items-center gap-4">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-muted-foreground">Rank by</span>
+                      <Select value={strategy} onValueChange={value => setStrategy(value as SuggestionStrategy)}>
+                        <SelectTrigger className="w-[190px] h-9">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.values(suggestionScorers).map(scorer => (
+                            <SelectItem key={scorer.id} value={scorer.id}>
+                              {scorer.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                     <div className="flex items-center gap-2">
                       <span className="text-sm text-muted-foreground">Show Graph</span>
                       <Button
@@ -347,10 +1160,15 @@ const Dashboard = () => {
                           const newState = !showTraversal;
                           setShowTraversal(newState);
                           if (newState) {
-                            setIsAnimating(true);
-                            setTimeout(() => setIsAnimating(false), 10000);
+                            setGraphFocus(null);
+                            if (graphMode === 'explorer') {
+                              explorerPlayback.restart();
+                            } else {
+                              playback.restart();
+                            }
                           } else {
-                            setIsAnimating(false);
+                            playback.stop();
+                            explorerPlayback.stop();
                           }
                         }}
                         className={showTraversal ? "bg-primary text-primary-foreground" : ""}
@@ -364,56 +1182,166 @@ const Dashboard = () => {
               
               {showTraversal && (
                 <CardContent className="mb-4 space-y-4">
-                  <div className="animate-fade-in">
-                    <h3 className="text-sm font-semibold mb-2 text-primary">Live Graph Traversal</h3>
-                    <GraphVisualization
-                      currentUserId={user?.id || ''}
-                      friends={friends}
-                      allUsers={allUsers}
-                      friendships={allFriendships}
-                      isAnimating={isAnimating}
-                    />
+                  <div className="animate-fade-in" ref={graphRef}>
+                    <div className="flex items-center justify-between mb-2">
+                      <div className="flex items-center gap-3">
+                        <h3 className="text-sm font-semibold text-primary">Live Graph Traversal</h3>
+                        <ToggleGroup
+                          type="single"
+                          size="sm"
+                          value={graphMode}
+                          onValueChange={value => value && changeGraphMode(value as 'trace' | 'explorer')}
+                        >
+                          <ToggleGroupItem value="trace" className="text-xs h-7">suggestion trace</ToggleGroupItem>
+                          <ToggleGroupItem value="explorer" className="text-xs h-7">explorer</ToggleGroupItem>
+                        </ToggleGroup>
+                      </div>
+                      {graphFocus && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setGraphFocus(null)}
+                          className="text-xs text-[#22D3EE]"
+                        >
+                          {graphFocus.label}
+                          <X className="w-3 h-3 ml-2" />
+                        </Button>
+                      )}
+                    </div>
+                    <div className={graphMode === 'explorer' ? 'grid gap-4 lg:grid-cols-[1fr_320px]' : ''}>
+                      <GraphVisualization
+                        currentUserId={user?.id || ''}
+                        friends={friends}
+                        allUsers={visibleNetworkProfiles}
+                        friendships={allFriendships}
+                        traversalEvents={traversalEvents}
+                        traversalPosition={playback.position}
+                        algorithmStep={graphMode === 'explorer' ? explorerStep : null}
+                        currentUserAvatarUrl={profile?.avatar_url}
+                        currentUserName={profile?.name}
+                        highlightPaths={graphFocus?.paths}
+                        requestedUserIds={outgoingRequests.map(r => r.recipient_id)}
+                        onViewProfile={userId => navigate(`/u/${userId}`)}
+                        onAddFriend={sendFriendRequest}
+                        expandedFriendships={expandedFriendships}
+                        expandedIds={Array.from(expansions.keys())}
+                        expandingId={expandingId}
+                        onExpand={expandNode}
+                        onCollapse={collapseNode}
+                        communityLabels={communityLabels}
+                        onNameCommunity={nameCommunity}
+                      />
+                      {graphMode === 'explorer' && (
+                        <AlgorithmExplorer
+                          people={explorerPeople}
+                          names={explorerNames}
+                          algorithm={explorerAlgorithm}
+                          source={explorerSource ?? user?.id ?? ''}
+                          target={explorerTarget}
+                          step={explorerStep}
+                          onAlgorithmChange={algorithm => {
+                            setExplorerAlgorithm(algorithm);
+                            explorerPlayback.restart();
+                          }}
+                          onSourceChange={userId => {
+                            setExplorerSource(userId);
+                            if (userId === explorerTarget) setExplorerTarget(null);
+                            explorerPlayback.restart();
+                          }}
+                          onTargetChange={userId => {
+                            setExplorerTarget(userId);
+                            explorerPlayback.restart();
+                          }}
+                        >
+                          <TraversalPlayback
+                            compact
+                            position={explorerPlayback.position}
+                            total={explorerSteps.length}
+                            playing={explorerPlayback.playing}
+                            speed={explorerPlayback.speed}
+                            onPlay={explorerPlayback.play}
+                            onPause={explorerPlayback.pause}
+                            onStepForward={explorerPlayback.stepForward}
+                            onStepBack={explorerPlayback.stepBack}
+                            onRestart={explorerPlayback.restart}
+                            onSeek={explorerPlayback.seek}
+                            onSpeedChange={explorerPlayback.setSpeed}
+                          />
+                        </AlgorithmExplorer>
+                      )}
+                    </div>
                   </div>
                   
-                  {traversalLogs.length > 0 && (
-                    <div className="glass-card border border-primary/20 rounded-lg p-4 max-h-60 overflow-y-auto">
-                      <h3 className="text-sm font-semibold mb-2 text-muted-foreground">Traversal Log</h3>
-                      <div className="font-mono text-xs space-y-1">
-                        {traversalLogs.map((log, index) => (
-                          <div 
-                            key={index} 
-                            className={`animate-fade-in ${log.includes('✨') ? 'text-primary' : log.includes('✅') ? 'text-success' : 'text-foreground/80'}`}
-                            style={{ animationDelay: `${index * 0.05}s` }}
-                          >
-                            {log}
-                          </div>
-                        ))}
-                      </div>
+                  {graphMode === 'trace' && traversalEvents.length > 0 && (
+                    <div className="space-y-3">
+                      <TraversalPlayback
+                        position={playback.position}
+                        total={traversalEvents.length}
+                        playing={playback.playing}
+                        speed={playback.speed}
+                        onPlay={playback.play}
+                        onPause={playback.pause}
+                        onStepForward={playback.stepForward}
+                        onStepBack={playback.stepBack}
+                        onRestart={playback.restart}
+                        onSeek={playback.seek}
+                        onSpeedChange={playback.setSpeed}
+                      />
+                      <TraversalLog
+                        events={traversalEvents}
+                        position={playback.position}
+                        onSeek={playback.seek}
+                        exportMeta={{ strategy }}
+                      />
                     </div>
                   )}
                 </CardContent>
               )}
               
               <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {suggestions.length === 0 ? (
+                {listedSuggestions.length === 0 ? (
                   <p className="text-muted-foreground col-span-full text-center py-12">
                     no suggestions rn. start connecting with people! 🚀
                   </p>
                 ) : (
-                  suggestions.map(suggestion => (
+                  listedSuggestions.map(suggestion => (
                     <div key={suggestion.id} className="animate-scale-in">
                       <UserCard
                         id={suggestion.user_id}
                         name={suggestion.name}
                         email={suggestion.email}
+                        bio={suggestion.bio}
+                        avatarUrl={suggestion.avatar_url}
                         mutualFriends={suggestion.mutualFriends}
-                        onAddFriend={() => addFriend(suggestion.user_id)}
+                        mutualFriendProfiles={suggestion.mutualFriendProfiles}
+                        onShowMutualFriends={() => showInGraph({
+                          label: `bridges to ${suggestion.name}`,
+                          paths: suggestion.paths,
+                        })}
+                        onAddFriend={() => sendFriendRequest(suggestion.user_id)}
+                        onDismiss={() => dismissSuggestion(suggestion, null)}
+                        onSnooze={() => dismissSuggestion(suggestion, SNOOZE_DAYS)}
+                        onBlock={() => blockUser(suggestion)}
+                        {...getRequestProps(suggestion.user_id)}
                         loading={actionLoading === suggestion.user_id}
                       />
                     </div>
                   ))
                 )}
               </CardContent>
+
+              {visibleSuggestionCount < suggestionsTotal && (
+                <CardContent className="flex justify-center">
+                  <Button
+                    variant="outline"
+                    onClick={loadMoreSuggestions}
+                    disabled={loadingMoreSuggestions}
+                    className="interactive-scale"
+                  >
+                    {loadingMoreSuggestions ? 'loading...' : `show more (${suggestionsTotal - visibleSuggestionCount} left)`}
+                  </Button>
+                </CardContent>
+              )}
             </Card>
           </TabsContent>
 
@@ -437,8 +1365,11 @@ const Dashboard = () => {
                         id={friend.user_id}
                         name={friend.name}
                         email={friend.email}
+                        bio={friend.bio}
+                        avatarUrl={friend.avatar_url}
                         isFriend
                         onRemoveFriend={() => removeFriend(friend.user_id)}
+                        onBlock={() => blockUser(friend)}
                         loading={actionLoading === friend.user_id}
                       />
                     </div>
@@ -449,15 +1380,84 @@ const Dashboard = () => {
           </TabsContent>
 
           <TabsContent value="all" className="space-y-4">
+            {connection && (
+              <Card className="glass-card shadow-card animate-fade-in">
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle className="text-lg">🧭 how you know {connection.target.name}</CardTitle>
+                      <CardDescription>shortest chains through your network</CardDescription>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {connection.paths.length > 0 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="interactive-scale"
+                          onClick={() => showInGraph({
+                            label: `path to ${connection.target.name}`,
+                            paths: connection.paths.map(p => p.ids),
+                          })}
+                        >
+                          <Network className="w-4 h-4 mr-2" />
+                          show in graph
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="icon" onClick={() => setConnection(null)}>
+                        <X className="w-4 h-4" />
+                        <span className="sr-only">close</span>
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <ConnectionPath currentUserId={user?.id || ''} paths={connection.paths} />
+                </CardContent>
+              </Card>
+            )}
+
             <Card className="glass-card shadow-card">
               <CardHeader>
-                <CardTitle className="text-xl">🌐 everyone</CardTitle>
-                <CardDescription>
-                  explore & connect
-                </CardDescription>
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <div>
+                    <CardTitle className="text-xl">🌐 everyone</CardTitle>
+                    <CardDescription>
+                      explore & connect
+                    </CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Select value={degreeFilter} onValueChange={value => setDegreeFilter(value as DegreeBucket | 'all')}>
+                      <SelectTrigger className="w-[160px] h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">all degrees</SelectItem>
+                        {degreeBuckets.map(bucket => (
+                          <SelectItem key={bucket} value={bucket}>
+                            {bucket === 'none' ? degreeLabels[bucket] : `${degreeLabels[bucket]} degree`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={everyoneSort} onValueChange={value => setEveryoneSort(value as 'name' | 'closest')}>
+                      <SelectTrigger className="w-[140px] h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="closest">closest first</SelectItem>
+                        <SelectItem value="name">by name</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
               </CardHeader>
               <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {allUsers.map(otherUser => {
+                {everyone.length === 0 && (
+                  <p className="text-muted-foreground col-span-full text-center py-12">
+                    {allUsersLoaded ? 'no one here with that filter 🔍' : 'loading everyone...'}
+                  </p>
+                )}
+                {everyone.map(otherUser => {
                   const isFriend = friends.some(f => f.user_id === otherUser.user_id);
                   return (
                     <div key={otherUser.id} className="animate-scale-in">
@@ -465,9 +1465,15 @@ const Dashboard = () => {
                         id={otherUser.user_id}
                         name={otherUser.name}
                         email={otherUser.email}
+                        bio={otherUser.bio}
+                        avatarUrl={otherUser.avatar_url}
                         isFriend={isFriend}
-                        onAddFriend={() => addFriend(otherUser.user_id)}
+                        degree={getDegree(otherUser.user_id)}
+                        onAddFriend={() => sendFriendRequest(otherUser.user_id)}
                         onRemoveFriend={() => removeFriend(otherUser.user_id)}
+                        onBlock={() => blockUser(otherUser)}
+                        onShowConnection={() => showConnection(otherUser)}
+                        {...getRequestProps(otherUser.user_id)}
                         loading={actionLoading === otherUser.user_id}
                       />
                     </div>
@@ -476,6 +1482,77 @@ const Dashboard = () => {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="insights" className="space-y-4">
+            {insights && (
+              <NetworkInsights currentUserId={user.id} insights={insights} names={networkNames} />
+            )}
+          </TabsContent>
+
+          <TabsContent value="requests" className="space-y-4">
+            <Card className="glass-card shadow-card">
+              <CardHeader>
+                <CardTitle className="text-xl">📬 incoming</CardTitle>
+                <CardDescription>
+                  people who want to connect
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {incomingRequests.length === 0 ? (
+                  <p className="text-muted-foreground col-span-full text-center py-12">
+                    no pending requests rn 📭
+                  </p>
+                ) : (
+                  incomingRequests.map(request => (
+                    <div key={request.id} className="animate-scale-in">
+                      <UserCard
+                        id={request.profile.user_id}
+                        name={request.profile.name}
+                        email={request.profile.email}
+                        bio={request.profile.bio}
+                        avatarUrl={request.profile.avatar_url}
+                        requestStatus="incoming"
+                        onAcceptRequest={() => acceptFriendRequest(request)}
+                        onDeclineRequest={() => respondToFriendRequest(request, 'declined')}
+                        loading={actionLoading === request.profile.user_id}
+                      />
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="glass-card shadow-card">
+              <CardHeader>
+                <CardTitle className="text-xl">📤 outgoing</CardTitle>
+                <CardDescription>
+                  waiting on them
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {outgoingRequests.length === 0 ? (
+                  <p className="text-muted-foreground col-span-full text-center py-12">
+                    no requests sent. go say hi 👋
+                  </p>
+                ) : (
+                  outgoingRequests.map(request => (
+                    <div key={request.id} className="animate-scale-in">
+                      <UserCard
+                        id={request.profile.user_id}
+                        name={request.profile.name}
+                        email={request.profile.email}
+                        bio={request.profile.bio}
+                        avatarUrl={request.profile.avatar_url}
+                        requestStatus="outgoing"
+                        onCancelRequest={() => respondToFriendRequest(request, 'cancelled')}
+                        loading={actionLoading === request.profile.user_id}
+                      />
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
     </div>
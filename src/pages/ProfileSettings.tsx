@@ -0,0 +1,251 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { AvatarUploader } from '@/components/AvatarUploader';
+import { avatarPath, withSignedAvatars } from '@/lib/avatars';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { toast } from 'sonner';
+import { ArrowLeft } from 'lucide-react';
+
+const BIO_MAX_LENGTH = 280;
+
+const profileSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, { message: "Name must be at least 2 characters" })
+    .max(60, { message: "Name must be at most 60 characters" }),
+  bio: z
+    .string()
+    .trim()
+    .max(BIO_MAX_LENGTH, { message: `Bio must be at most ${BIO_MAX_LENGTH} characters` }),
+});
+
+type ProfileFormValues = z.infer<typeof profileSchema>;
+
+const ProfileSettings = () => {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+  // The stored avatar_url, and a signed link to show it with
+  const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
+  const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: { name: '', bio: '' },
+  });
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadProfile = async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('name, bio, avatar_url')
+        .eq('user_id', user.id)
+        .single();
+
+      if (error) {
+        toast.error('Failed to load profile');
+        console.error(error);
+      } else {
+        form.reset({ name: data.name, bio: data.bio ?? '' });
+        setAvatarUrl(data.avatar_url);
+        const [signed] = await withSignedAvatars([data]);
+        setAvatarPreview(signed.avatar_url);
+      }
+      setLoading(false);
+    };
+
+    loadProfile();
+  }, [user, form]);
+
+  const onSubmit = async (values: ProfileFormValues) => {
+    const { error } = await supabase
+      .from('profiles')
+      .update({ name: values.name, bio: values.bio || null })
+      .eq('user_id', user.id);
+
+    if (error) {
+      toast.error('Failed to save profile');
+      console.error(error);
+    } else {
+      form.reset(values);
+      toast.success('Profile saved ✨');
+    }
+  };
+
+  const saveAvatarUrl = async (url: string | null) => {
+    const { error } = await supabase
+      .from('profiles')
+      .update({ avatar_url: url })
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+    setAvatarUrl(url);
+    const [signed] = await withSignedAvatars([{ avatar_url: url }]);
+    setAvatarPreview(signed.avatar_url);
+  };
+
+  // Each upload gets a fresh file name so cached copies of the old photo don't linger
+  const uploadAvatar = async (blob: Blob) => {
+    const path = `${user.id}/avatar-${Date.now()}.webp`;
+
+    try {
+      const { error } = await supabase.storage
+        .from('avatars')
+        .upload(path, blob, { contentType: 'image/webp', upsert: true });
+      if (error) throw error;
+
+      const previous = avatarUrl;
+      await saveAvatarUrl(path);
+      await removeStoredAvatar(previous);
+      toast.success('Looking good! 📸');
+    } catch (error) {
+      toast.error('Failed to upload photo');
+      console.error(error);
+    }
+  };
+
+  const removeAvatar = async () => {
+    try {
+      const previous = avatarUrl;
+      await saveAvatarUrl(null);
+      await removeStoredAvatar(previous);
+      toast.success('Photo removed');
+    } catch (error) {
+      toast.error('Failed to remove photo');
+      console.error(error);
+    }
+  };
+
+  // Best-effort cleanup of a photo we uploaded earlier
+  const removeStoredAvatar = async (stored: string | null) => {
+    if (!stored) return;
+
+    const path = avatarPath(stored);
+    if (!path.startsWith(`${user.id}/`)) return;
+
+    await supabase.storage.from('avatars').remove([path]);
+  };
+
+  if (authLoading || (user && loading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background transition-colors">
+        <div className="text-center animate-fade-in">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto glow-effect"></div>
+          <p className="mt-4 text-muted-foreground">loading vibes...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  const bioLength = form.watch('bio')?.length ?? 0;
+
+  return (
+    <div className="min-h-screen bg-background p-4 transition-colors duration-300">
+      <div className="max-w-2xl mx-auto space-y-6 animate-fade-in">
+        <div className="flex items-center justify-between">
+          <Button asChild variant="ghost" size="sm" className="interactive-scale">
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              back
+            </Link>
+          </Button>
+          <ThemeToggle />
+        </div>
+
+        <Card className="glass-card shadow-card">
+          <CardHeader>
+            <CardTitle className="text-2xl font-bold gradient-text">your profile</CardTitle>
+            <CardDescription>how you show up for everyone else</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-8">
+            <AvatarUploader
+              name={form.getValues('name') || user.email || ''}
+              avatarUrl={avatarPreview}
+              onCropped={uploadAvatar}
+              onRemove={removeAvatar}
+            />
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="your name" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="bio"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>bio</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder="a little something about you"
+                          className="resize-none"
+                          rows={4}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        {bioLength}/{BIO_MAX_LENGTH}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="submit"
+                  disabled={form.formState.isSubmitting || !form.formState.isDirty}
+                  className="bg-gradient-to-r from-primary to-accent hover:opacity-90 interactive-scale"
+                >
+                  {form.formState.isSubmitting ? 'saving...' : 'save changes'}
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileSettings;
@@ -0,0 +1,431 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { ConnectionPath, type ConnectionChain } from '@/components/ConnectionPath';
+import { withSignedAvatars } from '@/lib/avatars';
+import { toast } from 'sonner';
+import { ArrowLeft, Check, Clock, Mail, Pencil, UserMinus, UserPlus, Users, X } from 'lucide-react';
+
+interface Profile {
+  id: string;
+  user_id: string;
+  name: string;
+  email: string | null;
+  bio: string | null;
+  avatar_url: string | null;
+}
+
+interface PendingRequest {
+  id: string;
+  sender_id: string;
+  recipient_id: string;
+}
+
+const getInitials = (name: string) =>
+  name
+    .split(' ')
+    .map(n => n[0])
+    .join('')
+    .toUpperCase()
+    .slice(0, 2);
+
+const UserProfile = () => {
+  const { userId } = useParams<{ userId: string }>();
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [friendCount, setFriendCount] = useState<number | null>(null);
+  const [mutualFriends, setMutualFriends] = useState<Profile[]>([]);
+  const [isFriend, setIsFriend] = useState(false);
+  const [pendingRequest, setPendingRequest] = useState<PendingRequest | null>(null);
+  const [paths, setPaths] = useState<ConnectionChain[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  const isMe = user?.id === userId;
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  const loadRelationship = useCallback(async () => {
+    if (!user || !userId) return;
+
+    const [{ data: friendship }, { data: requests }] = await Promise.all([
+      supabase
+        .from('friendships')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('friend_id', userId)
+        .maybeSingle(),
+      supabase
+        .from('friend_requests')
+        .select('id, sender_id, recipient_id')
+        .eq('status', 'pending')
+        .or(`and(sender_id.eq.${user.id},recipient_id.eq.${userId}),and(sender_id.eq.${userId},recipient_id.eq.${user.id})`),
+    ]);
+
+    setIsFriend(!!friendship);
+    setPendingRequest(requests?.[0] || null);
+  }, [user, userId]);
+
+  const loadSummary = useCallback(async () => {
+    if (!userId) return;
+
+    const { data, error } = await supabase.rpc('get_profile_summary', { p_user_id: userId });
+
+    if (error) {
+      console.error('Failed to load profile summary:', error);
+      return;
+    }
+
+    const summary = data?.[0];
+    setFriendCount(summary?.friend_count ?? null);
+
+    const mutualIds = summary?.mutual_friend_ids || [];
+    if (mutualIds.length === 0) {
+      setMutualFriends([]);
+      return;
+    }
+
+    const { data: mutualProfiles } = await supabase
+      .from('profile_directory')
+      .select('*')
+      .in('user_id', mutualIds)
+      .order('name');
+
+    setMutualFriends(await withSignedAvatars((mutualProfiles || []) as Profile[]));
+  }, [userId]);
+
+  const loadPaths = useCallback(async () => {
+    if (!userId) return;
+
+    const { data, error } = await supabase.rpc('get_connection_paths', {
+      p_target_id: userId,
+    });
+
+    if (error) {
+      console.error('Failed to find connection path:', error);
+      return;
+    }
+
+    setPaths((data || []).map(row => ({ ids: row.path, names: row.names })));
+  }, [userId]);
+
+  useEffect(() => {
+    if (!user || !userId) return;
+
+    const loadProfile = async () => {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('profile_directory')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        toast.error('Failed to load profile');
+        console.error(error);
+      }
+
+      setProfile(data ? (await withSignedAvatars([data as Profile]))[0] : null);
+
+      if (data) {
+        await Promise.all([
+          loadSummary(),
+          loadRelationship(),
+          user.id !== userId ? loadPaths() : Promise.resolve(),
+        ]);
+      }
+
+      setLoading(false);
+    };
+
+    loadProfile();
+  }, [user, userId, loadSummary, loadRelationship, loadPaths]);
+
+  const refresh = async () => {
+    await Promise.all([loadRelationship(), loadSummary(), loadPaths()]);
+  };
+
+  const sendFriendRequest = async () => {
+    setActionLoading(true);
+
+    const { error } = await supabase
+      .from('friend_requests')
+      .insert({ sender_id: user.id, recipient_id: userId });
+
+    if (error) {
+      toast.error('Failed to send friend request');
+    } else {
+      toast.success('Friend request sent!');
+      await loadRelationship();
+    }
+
+    setActionLoading(false);
+  };
+
+  const acceptFriendRequest = async () => {
+    setActionLoading(true);
+
+    const { error } = await supabase.rpc('accept_friend_request', {
+      p_request_id: pendingRequest.id,
+    });
+
+    if (error) {
+      toast.error('Failed to accept friend request');
+    } else {
+      toast.success(`You and ${profile.name} are now friends!`);
+      await refresh();
+    }
+
+    setActionLoading(false);
+  };
+
+  const respondToFriendRequest = async (status: 'declined' | 'cancelled') => {
+    setActionLoading(true);
+
+    const { error } = await supabase
+      .from('friend_requests')
+      .update({ status })
+      .eq('id', pendingRequest.id);
+
+    if (error) {
+      toast.error(status === 'declined' ? 'Failed to decline friend request' : 'Failed to cancel friend request');
+    } else {
+      toast.success(status === 'declined' ? 'Friend request declined' : 'Friend request cancelled');
+      await loadRelationship();
+    }
+
+    setActionLoading(false);
+  };
+
+  const removeFriend = async () => {
+    setActionLoading(true);
+
+    const { error } = await supabase
+      .from('friendships')
+      .delete()
+      .or(`and(user_id.eq.${user.id},friend_id.eq.${userId}),and(user_id.eq.${userId},friend_id.eq.${user.id})`);
+
+    if (error) {
+      toast.error('Failed to remove friend');
+    } else {
+      toast.success('Friend removed');
+      await refresh();
+    }
+
+    setActionLoading(false);
+  };
+
+  if (authLoading || (user && loading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background transition-colors">
+        <div className="text-center animate-fade-in">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto glow-effect"></div>
+          <p className="mt-4 text-muted-foreground">loading vibes...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  const renderActions = () => {
+    if (isMe) {
+      return (
+        <Button asChild variant="outline" className="interactive-scale">
+          <Link to="/settings/profile">
+            <Pencil className="w-4 h-4 mr-2" />
+            edit profile
+          </Link>
+        </Button>
+      );
+    }
+
+    if (isFriend) {
+      return (
+        <Button
+          onClick={removeFriend}
+          disabled={actionLoading}
+          variant="outline"
+          className="interactive-scale hover:bg-destructive hover:text-destructive-foreground"
+        >
+          <UserMinus className="w-4 h-4 mr-2" />
+          unfriend
+        </Button>
+      );
+    }
+
+    if (pendingRequest?.sender_id === userId) {
+      return (
+        <div className="flex gap-2">
+          <Button
+            onClick={acceptFriendRequest}
+            disabled={actionLoading}
+            className="bg-gradient-to-r from-primary to-accent hover:opacity-90 interactive-scale"
+          >
+            <Check className="w-4 h-4 mr-2" />
+            accept
+          </Button>
+          <Button
+            onClick={() => respondToFriendRequest('declined')}
+            disabled={actionLoading}
+            variant="outline"
+            className="interactive-scale"
+          >
+            <X className="w-4 h-4 mr-2" />
+            decline
+          </Button>
+        </div>
+      );
+    }
+
+    if (pendingRequest) {
+      return (
+        <Button
+          onClick={() => respondToFriendRequest('cancelled')}
+          disabled={actionLoading}
+          variant="outline"
+          className="interactive-scale"
+        >
+          <Clock className="w-4 h-4 mr-2" />
+          requested · cancel
+        </Button>
+      );
+    }
+
+    return (
+      <Button
+        onClick={sendFriendRequest}
+        disabled={actionLoading}
+        className="bg-gradient-to-r from-primary to-accent hover:opacity-90 interactive-scale"
+      >
+        <UserPlus className="w-4 h-4 mr-2" />
+        add friend
+      </Button>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4 transition-colors duration-300">
+      <div className="max-w-3xl mx-auto space-y-6 animate-fade-in">
+        <div className="flex items-center justify-between">
+          <Button asChild variant="ghost" size="sm" className="interactive-scale">
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              back
+            </Link>
+          </Button>
+          <ThemeToggle />
+        </div>
+
+        {!profile ? (
+          <Card className="glass-card shadow-card">
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">this profile doesn't exist or isn't available 👻</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card className="glass-card shadow-card">
+              <CardHeader>
+                <div className="flex flex-col sm:flex-row sm:items-center gap-6">
+                  <Avatar className="w-24 h-24 ring-2 ring-primary/20">
+                    {profile.avatar_url && <AvatarImage src={profile.avatar_url} alt={profile.name} />}
+                    <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-primary-foreground text-2xl font-bold">
+                      {getInitials(profile.name)}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <CardTitle className="text-3xl font-bold gradient-text truncate">
+                        {profile.name}
+                      </CardTitle>
+                      {isMe && <Badge variant="secondary">you</Badge>}
+                      {isFriend && <Badge variant="secondary">friend</Badge>}
+                    </div>
+                    {profile.email && (
+                      <p className="text-sm text-muted-foreground flex items-center gap-1">
+                        <Mail className="w-3 h-3" />
+                        {profile.email}
+                      </p>
+                    )}
+                    {friendCount !== null && (
+                      <p className="text-sm text-muted-foreground flex items-center gap-1">
+                        <Users className="w-3 h-3" />
+                        {friendCount} friend{friendCount !== 1 ? 's' : ''}
+                      </p>
+                    )}
+                  </div>
+                  {renderActions()}
+                </div>
+              </CardHeader>
+              {profile.bio && (
+                <CardContent>
+                  <p className="text-sm">{profile.bio}</p>
+                </CardContent>
+              )}
+            </Card>
+
+            {!isMe && (
+              <Card className="glass-card shadow-card">
+                <CardHeader>
+                  <CardTitle className="text-lg">how you're connected</CardTitle>
+                  <CardDescription>the shortest chains of friends between you two</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ConnectionPath currentUserId={user.id} paths={paths} />
+                </CardContent>
+              </Card>
+            )}
+
+            {!isMe && (
+              <Card className="glass-card shadow-card">
+                <CardHeader>
+                  <CardTitle className="text-lg">mutual friends ({mutualFriends.length})</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {mutualFriends.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">no mutual friends yet</p>
+                  ) : (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      {mutualFriends.map(mutual => (
+                        <Link
+                          key={mutual.user_id}
+                          to={`/u/${mutual.user_id}`}
+                          className="flex items-center gap-3 rounded-lg p-2 hover:bg-primary/10 transition-colors"
+                        >
+                          <Avatar className="w-9 h-9">
+                            {mutual.avatar_url && <AvatarImage src={mutual.avatar_url} alt={mutual.name} />}
+                            <AvatarFallback className="bg-gradient-to-br from-primary to-accent text-primary-foreground text-xs font-bold">
+                              {getInitials(mutual.name)}
+                            </AvatarFallback>
+                          </Avatar>
+                          <span className="text-sm font-medium truncate">{mutual.name}</span>
+                        </Link>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UserProfile;
@@ -0,0 +1,119 @@
+-- Friend requests: friendships are only created once the recipient accepts
+CREATE TYPE public.friend_request_status AS ENUM ('pending', 'accepted', 'declined', 'cancelled');
+
+CREATE TABLE public.friend_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sender_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE NOT NULL,
+  recipient_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE NOT NULL,
+  status public.friend_request_status NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  responded_at TIMESTAMPTZ,
+  CHECK (sender_id != recipient_id)
+);
+
+-- Only one pending request per pair of users, whichever side sent it
+CREATE UNIQUE INDEX idx_friend_requests_pending_pair
+  ON public.friend_requests (LEAST(sender_id, recipient_id), GREATEST(sender_id, recipient_id))
+  WHERE status = 'pending';
+CREATE INDEX idx_friend_requests_sender_id ON public.friend_requests(sender_id);
+CREATE INDEX idx_friend_requests_recipient_id ON public.friend_requests(recipient_id);
+
+-- Enable RLS
+ALTER TABLE public.friend_requests ENABLE ROW LEVEL SECURITY;
+
+-- Users can view requests they sent or received
+CREATE POLICY "Users can view their friend requests"
+  ON public.friend_requests FOR SELECT
+  USING (auth.uid() = sender_id OR auth.uid() = recipient_id);
+
+-- Users can send pending requests to people who aren't already their friends
+CREATE POLICY "Users can send friend requests"
+  ON public.friend_requests FOR INSERT
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND status = 'pending'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.friendships f
+      WHERE f.user_id = sender_id AND f.friend_id = recipient_id
+    )
+  );
+
+-- Recipients can decline a pending request (accepting goes through accept_friend_request)
+CREATE POLICY "Recipients can decline friend requests"
+  ON public.friend_requests FOR UPDATE
+  USING (auth.uid() = recipient_id AND status = 'pending')
+  WITH CHECK (auth.uid() = recipient_id AND status = 'declined');
+
+-- Senders can cancel a pending request
+CREATE POLICY "Senders can cancel friend requests"
+  ON public.friend_requests FOR UPDATE
+  USING (auth.uid() = sender_id AND status = 'pending')
+  WITH CHECK (auth.uid() = sender_id AND status = 'cancelled');
+
+-- Only the status can be changed by clients
+REVOKE UPDATE ON public.friend_requests FROM anon, authenticated;
+GRANT UPDATE (status) ON public.friend_requests TO authenticated;
+
+-- Stamp responded_at whenever a request leaves the pending state
+CREATE OR REPLACE FUNCTION public.set_friend_request_responded_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> OLD.status THEN
+    NEW.responded_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_friend_request_status_change
+  BEFORE UPDATE OF status ON public.friend_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_friend_request_responded_at();
+
+-- Accept a pending request and create both directions of the friendship atomically
+CREATE OR REPLACE FUNCTION public.accept_friend_request(p_request_id uuid)
+RETURNS public.friend_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  requester uuid := auth.uid();
+  request public.friend_requests;
+BEGIN
+  SELECT * INTO request
+  FROM public.friend_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  -- Only the recipient can accept
+  IF requester IS NULL OR request.id IS NULL OR request.recipient_id <> requester THEN
+    RAISE EXCEPTION 'not authorized';
+  END IF;
+
+  IF request.status <> 'pending' THEN
+    RAISE EXCEPTION 'friend request is no longer pending';
+  END IF;
+
+  UPDATE public.friend_requests
+  SET status = 'accepted'
+  WHERE id = p_request_id
+  RETURNING * INTO request;
+
+  INSERT INTO public.friendships (user_id, friend_id)
+  VALUES
+    (request.sender_id, request.recipient_id),
+    (request.recipient_id, request.sender_id)
+  ON CONFLICT (user_id, friend_id) DO NOTHING;
+
+  RETURN request;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.accept_friend_request(uuid) TO authenticated;
+
+-- Friendships can no longer be inserted directly; they are created by accept_friend_request
+DROP POLICY IF EXISTS "Users can create friendships" ON public.friendships;
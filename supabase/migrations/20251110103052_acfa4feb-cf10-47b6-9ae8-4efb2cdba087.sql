@@ -0,0 +1,74 @@
+-- Return which friends bridge to each suggestion, not just how many
+DROP FUNCTION IF EXISTS public.get_friend_suggestions(integer, integer);
+
+CREATE OR REPLACE FUNCTION public.get_friend_suggestions(p_limit integer DEFAULT 24, p_offset integer DEFAULT 0)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  name text,
+  email text,
+  avatar_url text,
+  bio text,
+  created_at timestamptz,
+  mutual_friends integer,
+  mutual_friend_ids uuid[],
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  requester uuid := auth.uid();
+BEGIN
+  IF requester IS NULL THEN
+    RAISE EXCEPTION 'not authorized';
+  END IF;
+
+  RETURN QUERY
+  WITH my_friends AS (
+    SELECT f.friend_id AS uid FROM public.friendships f WHERE f.user_id = requester
+    UNION
+    SELECT f.user_id AS uid FROM public.friendships f WHERE f.friend_id = requester
+  ),
+  mutuals AS (
+    -- For each second-degree candidate, collect the distinct friends of mine that link to them
+    SELECT
+      e.candidate,
+      COUNT(DISTINCT e.via)::integer AS mutual_friends,
+      array_agg(DISTINCT e.via) AS mutual_friend_ids
+    FROM (
+      SELECT f.friend_id AS candidate, f.user_id AS via
+      FROM public.friendships f
+      JOIN my_friends mf ON f.user_id = mf.uid
+      UNION ALL
+      SELECT f.user_id AS candidate, f.friend_id AS via
+      FROM public.friendships f
+      JOIN my_friends mf ON f.friend_id = mf.uid
+    ) e
+    GROUP BY e.candidate
+  )
+  SELECT
+    p.id,
+    p.user_id,
+    p.name,
+    p.email,
+    p.avatar_url,
+    p.bio,
+    p.created_at,
+    COALESCE(m.mutual_friends, 0) AS mutual_friends,
+    COALESCE(m.mutual_friend_ids, '{}'::uuid[]) AS mutual_friend_ids,
+    COUNT(*) OVER () AS total_count
+  FROM public.profiles p
+  LEFT JOIN mutuals m ON m.candidate = p.user_id
+  WHERE p.user_id <> requester
+    AND p.user_id NOT IN (SELECT uid FROM my_friends)
+  ORDER BY COALESCE(m.mutual_friends, 0) DESC, p.name ASC, p.user_id ASC
+  LIMIT LEAST(p_limit, 100)
+  OFFSET p_offset;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_friend_suggestions(integer, integer) TO authenticated;
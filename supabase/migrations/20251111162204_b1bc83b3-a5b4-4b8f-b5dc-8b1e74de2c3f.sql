@@ -0,0 +1,111 @@
+-- Suggestions a user has dismissed, either for good or until a snooze expires
+CREATE TABLE public.suggestion_dismissals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE NOT NULL,
+  dismissed_user_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE NOT NULL,
+  snoozed_until TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(user_id, dismissed_user_id),
+  CHECK (user_id != dismissed_user_id)
+);
+
+CREATE INDEX idx_suggestion_dismissals_user_id ON public.suggestion_dismissals(user_id);
+
+-- Enable RLS
+ALTER TABLE public.suggestion_dismissals ENABLE ROW LEVEL SECURITY;
+
+-- Dismissals are private to the user who made them
+CREATE POLICY "Users can view their dismissals"
+  ON public.suggestion_dismissals FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create dismissals"
+  ON public.suggestion_dismissals FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their dismissals"
+  ON public.suggestion_dismissals FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their dismissals"
+  ON public.suggestion_dismissals FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Leave out dismissed users until their snooze (if any) expires
+CREATE OR REPLACE FUNCTION public.get_friend_suggestions(p_limit integer DEFAULT 24, p_offset integer DEFAULT 0)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  name text,
+  email text,
+  avatar_url text,
+  bio text,
+  created_at timestamptz,
+  mutual_friends integer,
+  mutual_friend_ids uuid[],
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  requester uuid := auth.uid();
+BEGIN
+  IF requester IS NULL THEN
+    RAISE EXCEPTION 'not authorized';
+  END IF;
+
+  RETURN QUERY
+  WITH my_friends AS (
+    SELECT f.friend_id AS uid FROM public.friendships f WHERE f.user_id = requester
+    UNION
+    SELECT f.user_id AS uid FROM public.friendships f WHERE f.friend_id = requester
+  ),
+  dismissed AS (
+    SELECT d.dismissed_user_id AS uid
+    FROM public.suggestion_dismissals d
+    WHERE d.user_id = requester
+      AND (d.snoozed_until IS NULL OR d.snoozed_until > now())
+  ),
+  mutuals AS (
+    -- For each second-degree candidate, collect the distinct friends of mine that link to them
+    SELECT
+      e.candidate,
+      COUNT(DISTINCT e.via)::integer AS mutual_friends,
+      array_agg(DISTINCT e.via) AS mutual_friend_ids
+    FROM (
+      SELECT f.friend_id AS candidate, f.user_id AS via
+      FROM public.friendships f
+      JOIN my_friends mf ON f.user_id = mf.uid
+      UNION ALL
+      SELECT f.user_id AS candidate, f.friend_id AS via
+      FROM public.friendships f
+      JOIN my_friends mf ON f.friend_id = mf.uid
+    ) e
+    GROUP BY e.candidate
+  )
+  SELECT
+    p.id,
+    p.user_id,
+    p.name,
+    p.email,
+    p.avatar_url,
+    p.bio,
+    p.created_at,
+    COALESCE(m.mutual_friends, 0) AS mutual_friends,
+    COALESCE(m.mutual_friend_ids, '{}'::uuid[]) AS mutual_friend_ids,
+    COUNT(*) OVER () AS total_count
+  FROM public.profiles p
+  LEFT JOIN mutuals m ON m.candidate = p.user_id
+  WHERE p.user_id <> requester
+    AND p.user_id NOT IN (SELECT uid FROM my_friends)
+    AND p.user_id NOT IN (SELECT uid FROM dismissed)
+  ORDER BY COALESCE(m.mutual_friends, 0) DESC, p.name ASC, p.user_id ASC
+  LIMIT LEAST(p_limit, 100)
+  OFFSET p_offset;
+END;
+$function$;
@@ -0,0 +1,292 @@
+-- Blocks: a blocked user can no longer see, find or connect to the blocker
+CREATE TABLE public.blocks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  blocker_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE NOT NULL,
+  blocked_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(blocker_id, blocked_id),
+  CHECK (blocker_id != blocked_id)
+);
+
+CREATE INDEX idx_blocks_blocker_id ON public.blocks(blocker_id);
+CREATE INDEX idx_blocks_blocked_id ON public.blocks(blocked_id);
+
+-- Enable RLS
+ALTER TABLE public.blocks ENABLE ROW LEVEL SECURITY;
+
+-- Only the blocker knows about a block
+CREATE POLICY "Users can view blocks they made"
+  ON public.blocks FOR SELECT
+  USING (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can block others"
+  ON public.blocks FOR INSERT
+  WITH CHECK (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can unblock others"
+  ON public.blocks FOR DELETE
+  USING (auth.uid() = blocker_id);
+
+-- Policies and functions need to check blocks in both directions, which RLS hides from the blocked side.
+-- Both helpers only answer for pairs that include the caller, so they can't be used to find out
+-- who else has blocked whom.
+CREATE OR REPLACE FUNCTION public.is_blocked_between(p_user_a uuid, p_user_b uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(auth.uid() IN (p_user_a, p_user_b), false)
+    AND EXISTS (
+      SELECT 1 FROM public.blocks b
+      WHERE (b.blocker_id = p_user_a AND b.blocked_id = p_user_b)
+         OR (b.blocker_id = p_user_b AND b.blocked_id = p_user_a)
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_blocked(p_blocker_id uuid, p_blocked_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(auth.uid() IN (p_blocker_id, p_blocked_id), false)
+    AND EXISTS (
+      SELECT 1 FROM public.blocks b
+      WHERE b.blocker_id = p_blocker_id AND b.blocked_id = p_blocked_id
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_blocked_between(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_blocked(uuid, uuid) TO authenticated;
+
+-- Blocking removes the friendship and any pending request between the pair
+CREATE OR REPLACE FUNCTION public.handle_new_block()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.friendships
+  WHERE (user_id = NEW.blocker_id AND friend_id = NEW.blocked_id)
+     OR (user_id = NEW.blocked_id AND friend_id = NEW.blocker_id);
+
+  UPDATE public.friend_requests
+  SET status = 'cancelled'
+  WHERE status = 'pending'
+    AND ((sender_id = NEW.blocker_id AND recipient_id = NEW.blocked_id)
+      OR (sender_id = NEW.blocked_id AND recipient_id = NEW.blocker_id));
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_block_created
+  AFTER INSERT ON public.blocks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_block();
+
+-- Profiles are hidden from the people their owner has blocked
+DROP POLICY IF EXISTS "Profiles are viewable by everyone" ON public.profiles;
+CREATE POLICY "Profiles are viewable by everyone they haven't blocked"
+  ON public.profiles FOR SELECT
+  USING (auth.uid() = user_id OR NOT public.has_blocked(user_id, auth.uid()));
+
+-- Friendship rows between blocked pairs are invisible (they are deleted on block anyway)
+DROP POLICY IF EXISTS "Users can view their friendships" ON public.friendships;
+CREATE POLICY "Users can view their friendships"
+  ON public.friendships FOR SELECT
+  USING (
+    (auth.uid() = user_id OR auth.uid() = friend_id)
+    AND NOT public.is_blocked_between(user_id, friend_id)
+  );
+
+-- No requests between blocked pairs
+DROP POLICY IF EXISTS "Users can send friend requests" ON public.friend_requests;
+CREATE POLICY "Users can send friend requests"
+  ON public.friend_requests FOR INSERT
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND status = 'pending'
+    AND NOT public.is_blocked_between(sender_id, recipient_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.friendships f
+      WHERE f.user_id = sender_id AND f.friend_id = recipient_id
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.accept_friend_request(p_request_id uuid)
+RETURNS public.friend_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  requester uuid := auth.uid();
+  request public.friend_requests;
+BEGIN
+  SELECT * INTO request
+  FROM public.friend_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  -- Only the recipient can accept
+  IF requester IS NULL OR request.id IS NULL OR request.recipient_id <> requester THEN
+    RAISE EXCEPTION 'not authorized';
+  END IF;
+
+  IF request.status <> 'pending' THEN
+    RAISE EXCEPTION 'friend request is no longer pending';
+  END IF;
+
+  IF public.is_blocked_between(request.sender_id, request.recipient_id) THEN
+    RAISE EXCEPTION 'not authorized';
+  END IF;
+
+  UPDATE public.friend_requests
+  SET status = 'accepted'
+  WHERE id = p_request_id
+  RETURNING * INTO request;
+
+  INSERT INTO public.friendships (user_id, friend_id)
+  VALUES
+    (request.sender_id, request.recipient_id),
+    (request.recipient_id, request.sender_id)
+  ON CONFLICT (user_id, friend_id) DO NOTHING;
+
+  RETURN request;
+END;
+$function$;
+
+-- Leave blocked users (either direction) out of the network
+CREATE OR REPLACE FUNCTION public.get_network_friendships(p_user_id uuid)
+RETURNS SETOF friendships
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  requester uuid := auth.uid();
+BEGIN
+  -- Ensure the caller is only requesting their own network
+  IF requester IS NULL OR requester <> p_user_id THEN
+    RAISE EXCEPTION 'not authorized';
+  END IF;
+
+  RETURN QUERY
+  WITH blocked AS (
+    SELECT b.blocked_id AS uid FROM public.blocks b WHERE b.blocker_id = p_user_id
+    UNION
+    SELECT b.blocker_id AS uid FROM public.blocks b WHERE b.blocked_id = p_user_id
+  ),
+  my_friends AS (
+    SELECT CASE WHEN f.user_id = p_user_id THEN f.friend_id ELSE f.user_id END AS uid
+    FROM public.friendships f
+    WHERE f.user_id = p_user_id OR f.friend_id = p_user_id
+  ),
+  fof AS (
+    -- friends of my friends (second-degree)
+    SELECT DISTINCT CASE WHEN f.user_id = mf.uid THEN f.friend_id ELSE f.user_id END AS uid
+    FROM public.friendships f
+    JOIN my_friends mf ON (f.user_id = mf.uid OR f.friend_id = mf.uid)
+  ),
+  network AS (
+    SELECT uid FROM (
+      SELECT p_user_id AS uid
+      UNION SELECT uid FROM my_friends
+      UNION SELECT uid FROM fof
+    ) n
+    WHERE n.uid NOT IN (SELECT uid FROM blocked)
+  )
+  SELECT f.*
+  FROM public.friendships f
+  WHERE f.user_id IN (SELECT uid FROM network)
+    AND f.friend_id IN (SELECT uid FROM network);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_friend_suggestions(p_limit integer DEFAULT 24, p_offset integer DEFAULT 0)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  name text,
+  email text,
+  avatar_url text,
+  bio text,
+  created_at timestamptz,
+  mutual_friends integer,
+  mutual_friend_ids uuid[],
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  requester uuid := auth.uid();
+BEGIN
+  IF requester IS NULL THEN
+    RAISE EXCEPTION 'not authorized';
+  END IF;
+
+  RETURN QUERY
+  WITH blocked AS (
+    SELECT b.blocked_id AS uid FROM public.blocks b WHERE b.blocker_id = requester
+    UNION
+    SELECT b.blocker_id AS uid FROM public.blocks b WHERE b.blocked_id = requester
+  ),
+  my_friends AS (
+    SELECT f.friend_id AS uid FROM public.friendships f WHERE f.user_id = requester
+    UNION
+    SELECT f.user_id AS uid FROM public.friendships f WHERE f.friend_id = requester
+  ),
+  dismissed AS (
+    SELECT d.dismissed_user_id AS uid
+    FROM public.suggestion_dismissals d
+    WHERE d.user_id = requester
+      AND (d.snoozed_until IS NULL OR d.snoozed_until > now())
+  ),
+  mutuals AS (
+    -- For each second-degree candidate, collect the distinct friends of mine that link to them
+    SELECT
+      e.candidate,
+      COUNT(DISTINCT e.via)::integer AS mutual_friends,
+      array_agg(DISTINCT e.via) AS mutual_friend_ids
+    FROM (
+      SELECT f.friend_id AS candidate, f.user_id AS via
+      FROM public.friendships f
+      JOIN my_friends mf ON f.user_id = mf.uid
+      UNION ALL
+      SELECT f.user_id AS candidate, f.friend_id AS via
+      FROM public.friendships f
+      JOIN my_friends mf ON f.friend_id = mf.uid
+    ) e
+    GROUP BY e.candidate
+  )
+  SELECT
+    p.id,
+    p.user_id,
+    p.name,
+    p.email,
+    p.avatar_url,
+    p.bio,
+    p.created_at,
+    COALESCE(m.mutual_friends, 0) AS mutual_friends,
+    COALESCE(m.mutual_friend_ids, '{}'::uuid[]) AS mutual_friend_ids,
+    COUNT(*) OVER () AS total_count
+  FROM public.profiles p
+  LEFT JOIN mutuals m ON m.candidate = p.user_id
+  WHERE p.user_id <> requester
+    AND p.user_id NOT IN (SELECT uid FROM my_friends)
+    AND p.user_id NOT IN (SELECT uid FROM dismissed)
+    AND p.user_id NOT IN (SELECT uid FROM blocked)
+  ORDER BY COALESCE(m.mutual_friends, 0) DESC, p.name ASC, p.user_id ASC
+  LIMIT LEAST(p_limit, 100)
+  OFFSET p_offset;
+END;
+$function$;
@@ -0,0 +1,196 @@
+-- Shortest friendship chain(s) from the caller to any profile, via bounded bidirectional BFS.
+-- Only friend lists inside the caller's own network (friends and friends of friends, the
+-- same people get_network_friendships shows) are expanded, and nobody blocked with the
+-- caller or the target appears along the way.
+CREATE OR REPLACE FUNCTION public.get_connection_paths(
+  p_target_id uuid,
+  p_max_depth integer DEFAULT 6,
+  p_max_paths integer DEFAULT 5
+)
+RETURNS TABLE (path uuid[], names text[])
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  requester uuid := auth.uid();
+  blocked uuid[];
+  -- People whose friend lists the search may read
+  expandable uuid[];
+  -- Each side keeps its visited set, its current frontier and the (child, parent) pairs
+  -- discovered so far; a child keeps every parent on the previous level so all shortest
+  -- chains can be rebuilt
+  fwd_visited uuid[];
+  fwd_frontier uuid[];
+  fwd_open uuid[];
+  fwd_child uuid[] := '{}';
+  fwd_parent uuid[] := '{}';
+  bwd_visited uuid[];
+  bwd_frontier uuid[];
+  bwd_open uuid[];
+  bwd_child uuid[] := '{}';
+  bwd_parent uuid[] := '{}';
+  new_child uuid[];
+  new_parent uuid[];
+  meeting uuid[] := '{}';
+  depth integer := 0;
+BEGIN
+  IF requester IS NULL THEN
+    RAISE EXCEPTION 'not authorized';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.blocks bl
+    WHERE (bl.blocker_id = requester AND bl.blocked_id = p_target_id)
+       OR (bl.blocker_id = p_target_id AND bl.blocked_id = requester)
+  ) THEN
+    RETURN;
+  END IF;
+
+  -- Anyone blocked with either end of the chain is skipped
+  SELECT COALESCE(array_agg(DISTINCT b.uid), '{}') INTO blocked
+  FROM (
+    SELECT bl.blocked_id AS uid FROM public.blocks bl WHERE bl.blocker_id IN (requester, p_target_id)
+    UNION
+    SELECT bl.blocker_id AS uid FROM public.blocks bl WHERE bl.blocked_id IN (requester, p_target_id)
+  ) b
+  WHERE b.uid NOT IN (requester, p_target_id);
+
+  SELECT COALESCE(array_agg(DISTINCT n.uid), '{}') INTO expandable
+  FROM (
+    SELECT requester AS uid
+    UNION
+    SELECT f.friend_id FROM public.friendships f WHERE f.user_id = requester
+    UNION
+    SELECT f2.friend_id
+    FROM public.friendships f1
+    JOIN public.friendships f2 ON f2.user_id = f1.friend_id
+    WHERE f1.user_id = requester
+  ) n
+  WHERE n.uid <> ALL(blocked);
+
+  fwd_visited := ARRAY[requester];
+  fwd_frontier := ARRAY[requester];
+  bwd_visited := ARRAY[p_target_id];
+  bwd_frontier := ARRAY[p_target_id];
+
+  IF p_target_id = requester THEN
+    meeting := ARRAY[requester];
+  END IF;
+
+  LOOP
+    -- Only the part of each frontier whose friend lists we may read can grow
+    fwd_open := ARRAY(SELECT n FROM unnest(fwd_frontier) n WHERE n = ANY(expandable));
+    bwd_open := ARRAY(SELECT n FROM unnest(bwd_frontier) n WHERE n = ANY(expandable));
+
+    EXIT WHEN cardinality(meeting) > 0
+      OR depth >= p_max_depth
+      OR (cardinality(fwd_open) = 0 AND cardinality(bwd_open) = 0);
+
+    depth := depth + 1;
+
+    -- Always grow the smaller frontier that can grow
+    IF cardinality(bwd_open) = 0
+      OR (cardinality(fwd_open) > 0 AND cardinality(fwd_open) <= cardinality(bwd_open)) THEN
+      SELECT
+        COALESCE(array_agg(e.child), '{}'),
+        COALESCE(array_agg(e.parent), '{}'),
+        COALESCE(array_agg(DISTINCT e.child), '{}')
+      INTO new_child, new_parent, fwd_frontier
+      FROM (
+        SELECT f.user_id AS parent, f.friend_id AS child
+        FROM public.friendships f WHERE f.user_id = ANY(fwd_open)
+        UNION
+        SELECT f.friend_id AS parent, f.user_id AS child
+        FROM public.friendships f WHERE f.friend_id = ANY(fwd_open)
+      ) e
+      WHERE e.child <> ALL(fwd_visited)
+        AND e.child <> ALL(blocked);
+
+      fwd_child := fwd_child || new_child;
+      fwd_parent := fwd_parent || new_parent;
+      fwd_visited := fwd_visited || fwd_frontier;
+
+      SELECT COALESCE(array_agg(m), '{}') INTO meeting
+      FROM unnest(fwd_frontier) m
+      WHERE m = ANY(bwd_visited);
+    ELSE
+      SELECT
+        COALESCE(array_agg(e.child), '{}'),
+        COALESCE(array_agg(e.parent), '{}'),
+        COALESCE(array_agg(DISTINCT e.child), '{}')
+      INTO new_child, new_parent, bwd_frontier
+      FROM (
+        SELECT f.user_id AS parent, f.friend_id AS child
+        FROM public.friendships f WHERE f.user_id = ANY(bwd_open)
+        UNION
+        SELECT f.friend_id AS parent, f.user_id AS child
+        FROM public.friendships f WHERE f.friend_id = ANY(bwd_open)
+      ) e
+      WHERE e.child <> ALL(bwd_visited)
+        AND e.child <> ALL(blocked);
+
+      bwd_child := bwd_child || new_child;
+      bwd_parent := bwd_parent || new_parent;
+      bwd_visited := bwd_visited || bwd_frontier;
+
+      SELECT COALESCE(array_agg(m), '{}') INTO meeting
+      FROM unnest(bwd_frontier) m
+      WHERE m = ANY(fwd_visited);
+    END IF;
+  END LOOP;
+
+  IF cardinality(meeting) = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH RECURSIVE fwd_pairs AS (
+    SELECT t.child, t.parent FROM unnest(fwd_child, fwd_parent) AS t(child, parent)
+  ),
+  bwd_pairs AS (
+    SELECT t.child, t.parent FROM unnest(bwd_child, bwd_parent) AS t(child, parent)
+  ),
+  -- Walk parents back from each meeting node to me...
+  fwd_paths(meet, node, chain) AS (
+    SELECT m, m, ARRAY[m] FROM unnest(meeting) m
+    UNION ALL
+    SELECT w.meet, pr.parent, pr.parent || w.chain
+    FROM fwd_paths w
+    JOIN fwd_pairs pr ON pr.child = w.node
+  ),
+  -- ...and forward from each meeting node to the target
+  bwd_paths(meet, node, chain) AS (
+    SELECT m, m, ARRAY[m] FROM unnest(meeting) m
+    UNION ALL
+    SELECT w.meet, pr.parent, w.chain || pr.parent
+    FROM bwd_paths w
+    JOIN bwd_pairs pr ON pr.child = w.node
+  ),
+  chains AS (
+    SELECT DISTINCT f.chain || b.chain[2:] AS chain
+    FROM fwd_paths f
+    JOIN bwd_paths b ON b.meet = f.meet
+    WHERE f.node = requester AND b.node = p_target_id
+  ),
+  shortest AS (
+    SELECT c.chain FROM chains c
+    WHERE cardinality(c.chain) = (SELECT MIN(cardinality(c2.chain)) FROM chains c2)
+    ORDER BY c.chain
+    LIMIT p_max_paths
+  )
+  SELECT
+    s.chain AS path,
+    ARRAY(
+      SELECT p.name
+      FROM unnest(s.chain) WITH ORDINALITY AS u(uid, ord)
+      JOIN public.profiles p ON p.user_id = u.uid
+      ORDER BY u.ord
+    ) AS names
+  FROM shortest s;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_connection_paths(uuid, integer, integer) TO authenticated;
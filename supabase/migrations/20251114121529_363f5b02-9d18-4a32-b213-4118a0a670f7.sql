@@ -0,0 +1,50 @@
+-- Hop distance from the caller to everyone reachable within p_max_depth, in one level-by-level BFS
+CREATE OR REPLACE FUNCTION public.get_degrees_of_separation(p_max_depth integer DEFAULT 6)
+RETURNS TABLE (user_id uuid, degree integer)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  requester uuid := auth.uid();
+  blocked uuid[];
+  visited uuid[];
+  frontier uuid[];
+  depth integer := 0;
+BEGIN
+  IF requester IS NULL THEN
+    RAISE EXCEPTION 'not authorized';
+  END IF;
+
+  SELECT COALESCE(array_agg(b.uid), '{}') INTO blocked
+  FROM (
+    SELECT bl.blocked_id AS uid FROM public.blocks bl WHERE bl.blocker_id = requester
+    UNION
+    SELECT bl.blocker_id AS uid FROM public.blocks bl WHERE bl.blocked_id = requester
+  ) b;
+
+  visited := ARRAY[requester];
+  frontier := ARRAY[requester];
+
+  WHILE depth < p_max_depth AND cardinality(frontier) > 0 LOOP
+    depth := depth + 1;
+
+    SELECT COALESCE(array_agg(DISTINCT e.uid), '{}') INTO frontier
+    FROM (
+      SELECT f.friend_id AS uid FROM public.friendships f WHERE f.user_id = ANY(frontier)
+      UNION
+      SELECT f.user_id AS uid FROM public.friendships f WHERE f.friend_id = ANY(frontier)
+    ) e
+    WHERE e.uid <> ALL(visited)
+      AND e.uid <> ALL(blocked);
+
+    visited := visited || frontier;
+
+    RETURN QUERY SELECT u.uid, depth FROM unnest(frontier) AS u(uid);
+  END LOOP;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_degrees_of_separation(integer) TO authenticated;
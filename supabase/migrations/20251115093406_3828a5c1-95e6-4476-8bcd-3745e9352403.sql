@@ -0,0 +1,207 @@
+-- Per-field profile visibility, enforced through the profile_directory view
+CREATE TYPE public.profile_visibility AS ENUM ('public', 'friends', 'friends_of_friends', 'only_me');
+
+CREATE TABLE public.profile_field_visibility (
+  user_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE NOT NULL,
+  field TEXT NOT NULL CONSTRAINT profile_field_visibility_field_check
+    CHECK (field IN ('email', 'bio', 'avatar_url')),
+  visibility public.profile_visibility NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, field)
+);
+
+-- Enable RLS
+ALTER TABLE public.profile_field_visibility ENABLE ROW LEVEL SECURITY;
+
+-- Users manage their own visibility settings
+CREATE POLICY "Users can view own field visibility"
+  ON public.profile_field_visibility FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can set own field visibility"
+  ON public.profile_field_visibility FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own field visibility"
+  ON public.profile_field_visibility FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can reset own field visibility"
+  ON public.profile_field_visibility FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Visibility used when a user hasn't chosen one for a field. Unknown fields are an error
+-- rather than silently public, so a typo in a caller can't expose anything.
+CREATE OR REPLACE FUNCTION public.default_field_visibility(p_field text)
+RETURNS public.profile_visibility
+LANGUAGE plpgsql
+IMMUTABLE
+AS $function$
+BEGIN
+  CASE p_field
+    WHEN 'email' THEN RETURN 'friends';
+    WHEN 'bio', 'avatar_url' THEN RETURN 'public';
+    ELSE RAISE EXCEPTION 'unknown profile field: %', p_field;
+  END CASE;
+END;
+$function$;
+
+-- Whether the caller may see p_field on p_owner's profile
+CREATE OR REPLACE FUNCTION public.can_view_profile_field(p_owner uuid, p_field text)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  viewer uuid := auth.uid();
+  setting public.profile_visibility;
+BEGIN
+  IF viewer IS NOT NULL AND viewer = p_owner THEN
+    RETURN true;
+  END IF;
+
+  SELECT v.visibility INTO setting
+  FROM public.profile_field_visibility v
+  WHERE v.user_id = p_owner AND v.field = p_field;
+
+  setting := COALESCE(setting, public.default_field_visibility(p_field));
+
+  IF setting = 'public' THEN
+    RETURN true;
+  END IF;
+
+  IF viewer IS NULL OR setting = 'only_me' THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.friendships f
+    WHERE f.user_id = p_owner AND f.friend_id = viewer
+  ) THEN
+    RETURN true;
+  END IF;
+
+  IF setting = 'friends_of_friends' THEN
+    RETURN EXISTS (
+      SELECT 1
+      FROM public.friendships f1
+      JOIN public.friendships f2 ON f2.user_id = f1.friend_id
+      WHERE f1.user_id = p_owner AND f2.friend_id = viewer
+    );
+  END IF;
+
+  RETURN false;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.can_view_profile_field(uuid, text) TO authenticated;
+
+-- Everyone else's profile as the caller is allowed to see it
+CREATE OR REPLACE VIEW public.profile_directory AS
+SELECT
+  p.id,
+  p.user_id,
+  p.name,
+  CASE WHEN public.can_view_profile_field(p.user_id, 'email') THEN p.email END AS email,
+  CASE WHEN public.can_view_profile_field(p.user_id, 'bio') THEN p.bio END AS bio,
+  CASE WHEN public.can_view_profile_field(p.user_id, 'avatar_url') THEN p.avatar_url END AS avatar_url,
+  p.created_at
+FROM public.profiles p
+WHERE auth.uid() IS NOT NULL
+  AND (p.user_id = auth.uid() OR NOT public.has_blocked(p.user_id, auth.uid()));
+
+REVOKE ALL ON public.profile_directory FROM anon;
+GRANT SELECT ON public.profile_directory TO authenticated;
+
+-- The raw table is now only readable by its owner; everyone else goes through profile_directory
+DROP POLICY IF EXISTS "Profiles are viewable by everyone they haven't blocked" ON public.profiles;
+CREATE POLICY "Users can view own profile"
+  ON public.profiles FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Suggestions expose the same masked fields as the directory
+CREATE OR REPLACE FUNCTION public.get_friend_suggestions(p_limit integer DEFAULT 24, p_offset integer DEFAULT 0)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  name text,
+  email text,
+  avatar_url text,
+  bio text,
+  created_at timestamptz,
+  mutual_friends integer,
+  mutual_friend_ids uuid[],
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  requester uuid := auth.uid();
+BEGIN
+  IF requester IS NULL THEN
+    RAISE EXCEPTION 'not authorized';
+  END IF;
+
+  RETURN QUERY
+  WITH blocked AS (
+    SELECT b.blocked_id AS uid FROM public.blocks b WHERE b.blocker_id = requester
+    UNION
+    SELECT b.blocker_id AS uid FROM public.blocks b WHERE b.blocked_id = requester
+  ),
+  my_friends AS (
+    SELECT f.friend_id AS uid FROM public.friendships f WHERE f.user_id = requester
+    UNION
+    SELECT f.user_id AS uid FROM public.friendships f WHERE f.friend_id = requester
+  ),
+  dismissed AS (
+    SELECT d.dismissed_user_id AS uid
+    FROM public.suggestion_dismissals d
+    WHERE d.user_id = requester
+      AND (d.snoozed_until IS NULL OR d.snoozed_until > now())
+  ),
+  mutuals AS (
+    -- For each second-degree candidate, collect the distinct friends of mine that link to them
+    SELECT
+      e.candidate,
+      COUNT(DISTINCT e.via)::integer AS mutual_friends,
+      array_agg(DISTINCT e.via) AS mutual_friend_ids
+    FROM (
+      SELECT f.friend_id AS candidate, f.user_id AS via
+      FROM public.friendships f
+      JOIN my_friends mf ON f.user_id = mf.uid
+      UNION ALL
+      SELECT f.user_id AS candidate, f.friend_id AS via
+      FROM public.friendships f
+      JOIN my_friends mf ON f.friend_id = mf.uid
+    ) e
+    GROUP BY e.candidate
+  )
+  SELECT
+    p.id,
+    p.user_id,
+    p.name,
+    p.email,
+    p.avatar_url,
+    p.bio,
+    p.created_at,
+    COALESCE(m.mutual_friends, 0) AS mutual_friends,
+    COALESCE(m.mutual_friend_ids, '{}'::uuid[]) AS mutual_friend_ids,
+    COUNT(*) OVER () AS total_count
+  FROM public.profile_directory p
+  LEFT JOIN mutuals m ON m.candidate = p.user_id
+  WHERE p.user_id <> requester
+    AND p.user_id NOT IN (SELECT uid FROM my_friends)
+    AND p.user_id NOT IN (SELECT uid FROM dismissed)
+    AND p.user_id NOT IN (SELECT uid FROM blocked)
+  ORDER BY COALESCE(m.mutual_friends, 0) DESC, p.name ASC, p.user_id ASC
+  LIMIT LEAST(p_limit, 100)
+  OFFSET p_offset;
+END;
+$function$;
@@ -0,0 +1,34 @@
+-- Private bucket for profile photos, stored under <user_id>/<file>. Clients get signed
+-- links, which storage only issues to callers the SELECT policy below lets through.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', false, 2097152, ARRAY['image/webp', 'image/jpeg', 'image/png'])
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+-- Photos follow the owner's avatar_url visibility and are hidden from people they've blocked
+CREATE POLICY "Avatar images follow profile photo visibility"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'avatars'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::text
+      OR (
+        public.can_view_profile_field(((storage.foldername(name))[1])::uuid, 'avatar_url')
+        AND NOT public.has_blocked(((storage.foldername(name))[1])::uuid, auth.uid())
+      )
+    )
+  );
+
+-- Only the owner can write inside their own folder
+CREATE POLICY "Users can upload their own avatar"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can update their own avatar"
+  ON storage.objects FOR UPDATE
+  USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text)
+  WITH CHECK (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own avatar"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,59 @@
+-- friend_count becomes a visibility field, public unless the owner hides it
+ALTER TABLE public.profile_field_visibility
+  DROP CONSTRAINT profile_field_visibility_field_check,
+  ADD CONSTRAINT profile_field_visibility_field_check
+    CHECK (field IN ('email', 'bio', 'avatar_url', 'friend_count'));
+
+CREATE OR REPLACE FUNCTION public.default_field_visibility(p_field text)
+RETURNS public.profile_visibility
+LANGUAGE plpgsql
+IMMUTABLE
+AS $function$
+BEGIN
+  CASE p_field
+    WHEN 'email' THEN RETURN 'friends';
+    WHEN 'bio', 'avatar_url', 'friend_count' THEN RETURN 'public';
+    ELSE RAISE EXCEPTION 'unknown profile field: %', p_field;
+  END CASE;
+END;
+$function$;
+
+-- Friend count and mutual friends for a single profile page.
+-- friend_count is NULL when the owner hides it via the 'friend_count' visibility field.
+CREATE OR REPLACE FUNCTION public.get_profile_summary(p_user_id uuid)
+RETURNS TABLE (friend_count integer, mutual_friend_ids uuid[])
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  requester uuid := auth.uid();
+BEGIN
+  IF requester IS NULL THEN
+    RAISE EXCEPTION 'not authorized';
+  END IF;
+
+  -- Blocked profiles don't exist as far as the other side is concerned
+  IF requester <> p_user_id AND public.is_blocked_between(requester, p_user_id) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    CASE WHEN public.can_view_profile_field(p_user_id, 'friend_count') THEN (
+      SELECT COUNT(*)::integer FROM public.friendships f WHERE f.user_id = p_user_id
+    ) END AS friend_count,
+    (
+      SELECT COALESCE(array_agg(theirs.friend_id), '{}'::uuid[])
+      FROM public.friendships theirs
+      JOIN public.friendships mine
+        ON mine.friend_id = theirs.friend_id AND mine.user_id = requester
+      WHERE theirs.user_id = p_user_id
+        AND requester <> p_user_id
+    ) AS mutual_friend_ids;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_profile_summary(uuid) TO authenticated;
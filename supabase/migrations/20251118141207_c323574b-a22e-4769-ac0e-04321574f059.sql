@@ -0,0 +1,475 @@
+-- Friend lists get their own visibility setting, defaulting to friends of friends
+ALTER TABLE public.profile_field_visibility
+  DROP CONSTRAINT profile_field_visibility_field_check,
+  ADD CONSTRAINT profile_field_visibility_field_check
+    CHECK (field IN ('email', 'bio', 'avatar_url', 'friend_count', 'friend_list'));
+
+CREATE OR REPLACE FUNCTION public.default_field_visibility(p_field text)
+RETURNS public.profile_visibility
+LANGUAGE plpgsql
+IMMUTABLE
+AS $function$
+BEGIN
+  CASE p_field
+    WHEN 'email' THEN RETURN 'friends';
+    WHEN 'friend_list' THEN RETURN 'friends_of_friends';
+    WHEN 'bio', 'avatar_url', 'friend_count' THEN RETURN 'public';
+    ELSE RAISE EXCEPTION 'unknown profile field: %', p_field;
+  END CASE;
+END;
+$function$;
+
+-- One person's friendships, for expanding the graph past the two-hop network on demand.
+-- Empty when the owner's 'friend_list' visibility hides it from the caller; friends
+-- blocked with the caller (either direction) are left out.
+CREATE OR REPLACE FUNCTION public.get_node_neighborhood(p_node_id uuid)
+RETURNS SETOF friendships
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  requester uuid := auth.uid();
+BEGIN
+  IF requester IS NULL THEN
+    RAISE EXCEPTION 'not authorized';
+  END IF;
+
+  IF requester <> p_node_id AND public.is_blocked_between(requester, p_node_id) THEN
+    RETURN;
+  END IF;
+
+  IF NOT public.can_view_profile_field(p_node_id, 'friend_list') THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT f.*
+  FROM public.friendships f
+  WHERE f.user_id = p_node_id
+    AND (f.friend_id = requester OR NOT public.is_blocked_between(requester, f.friend_id));
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_node_neighborhood(uuid) TO authenticated;
+
+-- The caller's network as before, but only through friend lists they may see: friends of
+-- friends come from visible friend lists, and an edge between two other people is shown when
+-- either of their lists is visible
+CREATE OR REPLACE FUNCTION public.get_network_friendships(p_user_id uuid)
+RETURNS SETOF friendships
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  requester uuid := auth.uid();
+BEGIN
+  -- Ensure the caller is only requesting their own network
+  IF requester IS NULL OR requester <> p_user_id THEN
+    RAISE EXCEPTION 'not authorized';
+  END IF;
+
+  RETURN QUERY
+  WITH blocked AS (
+    SELECT b.blocked_id AS uid FROM public.blocks b WHERE b.blocker_id = p_user_id
+    UNION
+    SELECT b.blocker_id AS uid FROM public.blocks b WHERE b.blocked_id = p_user_id
+  ),
+  my_friends AS (
+    SELECT f.friend_id AS uid
+    FROM public.friendships f
+    WHERE f.user_id = p_user_id
+  ),
+  fof AS (
+    -- friends of my friends (second-degree), where either side's friend list is visible
+    SELECT DISTINCT f.friend_id AS uid
+    FROM public.friendships f
+    JOIN my_friends mf ON f.user_id = mf.uid
+    WHERE public.can_view_profile_field(f.user_id, 'friend_list')
+       OR public.can_view_profile_field(f.friend_id, 'friend_list')
+  ),
+  network AS (
+    SELECT uid FROM (
+      SELECT p_user_id AS uid
+      UNION SELECT uid FROM my_friends
+      UNION SELECT uid FROM fof
+    ) n
+    WHERE n.uid NOT IN (SELECT uid FROM blocked)
+  )
+  SELECT f.*
+  FROM public.friendships f
+  WHERE f.user_id IN (SELECT uid FROM network)
+    AND f.friend_id IN (SELECT uid FROM network)
+    AND (
+      p_user_id IN (f.user_id, f.friend_id)
+      OR public.can_view_profile_field(f.user_id, 'friend_list')
+      OR public.can_view_profile_field(f.friend_id, 'friend_list')
+    );
+END;
+$function$;
+
+-- Connection paths only pass through people whose friend list the caller can see, replacing
+-- the fixed two-hop limit with the owners' own settings
+CREATE OR REPLACE FUNCTION public.get_connection_paths(
+  p_target_id uuid,
+  p_max_depth integer DEFAULT 6,
+  p_max_paths integer DEFAULT 5
+)
+RETURNS TABLE (path uuid[], names text[])
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  requester uuid := auth.uid();
+  blocked uuid[];
+  -- Each side keeps its visited set, its current frontier and the (child, parent) pairs
+  -- discovered so far; a child keeps every parent on the previous level so all shortest
+  -- chains can be rebuilt
+  fwd_visited uuid[];
+  fwd_frontier uuid[];
+  fwd_open uuid[];
+  fwd_child uuid[] := '{}';
+  fwd_parent uuid[] := '{}';
+  bwd_visited uuid[];
+  bwd_frontier uuid[];
+  bwd_open uuid[];
+  bwd_child uuid[] := '{}';
+  bwd_parent uuid[] := '{}';
+  new_child uuid[];
+  new_parent uuid[];
+  meeting uuid[] := '{}';
+  depth integer := 0;
+BEGIN
+  IF requester IS NULL THEN
+    RAISE EXCEPTION 'not authorized';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.blocks bl
+    WHERE (bl.blocker_id = requester AND bl.blocked_id = p_target_id)
+       OR (bl.blocker_id = p_target_id AND bl.blocked_id = requester)
+  ) THEN
+    RETURN;
+  END IF;
+
+  -- Anyone blocked with either end of the chain is skipped
+  SELECT COALESCE(array_agg(DISTINCT b.uid), '{}') INTO blocked
+  FROM (
+    SELECT bl.blocked_id AS uid FROM public.blocks bl WHERE bl.blocker_id IN (requester, p_target_id)
+    UNION
+    SELECT bl.blocker_id AS uid FROM public.blocks bl WHERE bl.blocked_id IN (requester, p_target_id)
+  ) b
+  WHERE b.uid NOT IN (requester, p_target_id);
+
+  fwd_visited := ARRAY[requester];
+  fwd_frontier := ARRAY[requester];
+  bwd_visited := ARRAY[p_target_id];
+  bwd_frontier := ARRAY[p_target_id];
+
+  IF p_target_id = requester THEN
+    meeting := ARRAY[requester];
+  END IF;
+
+  LOOP
+    -- Only the part of each frontier whose friend lists we may read can grow
+    fwd_open := ARRAY(
+      SELECT n FROM unnest(fwd_frontier) n WHERE public.can_view_profile_field(n, 'friend_list')
+    );
+    bwd_open := ARRAY(
+      SELECT n FROM unnest(bwd_frontier) n WHERE public.can_view_profile_field(n, 'friend_list')
+    );
+
+    EXIT WHEN cardinality(meeting) > 0
+      OR depth >= p_max_depth
+      OR (cardinality(fwd_open) = 0 AND cardinality(bwd_open) = 0);
+
+    depth := depth + 1;
+
+    -- Always grow the smaller frontier that can grow
+    IF cardinality(bwd_open) = 0
+      OR (cardinality(fwd_open) > 0 AND cardinality(fwd_open) <= cardinality(bwd_open)) THEN
+      SELECT
+        COALESCE(array_agg(e.child), '{}'),
+        COALESCE(array_agg(e.parent), '{}'),
+        COALESCE(array_agg(DISTINCT e.child), '{}')
+      INTO new_child, new_parent, fwd_frontier
+      FROM (
+        SELECT f.user_id AS parent, f.friend_id AS child
+        FROM public.friendships f WHERE f.user_id = ANY(fwd_open)
+        UNION
+        SELECT f.friend_id AS parent, f.user_id AS child
+        FROM public.friendships f WHERE f.friend_id = ANY(fwd_open)
+      ) e
+      WHERE e.child <> ALL(fwd_visited)
+        AND e.child <> ALL(blocked);
+
+      fwd_child := fwd_child || new_child;
+      fwd_parent := fwd_parent || new_parent;
+      fwd_visited := fwd_visited || fwd_frontier;
+
+      SELECT COALESCE(array_agg(m), '{}') INTO meeting
+      FROM unnest(fwd_frontier) m
+      WHERE m = ANY(bwd_visited);
+    ELSE
+      SELECT
+        COALESCE(array_agg(e.child), '{}'),
+        COALESCE(array_agg(e.parent), '{}'),
+        COALESCE(array_agg(DISTINCT e.child), '{}')
+      INTO new_child, new_parent, bwd_frontier
+      FROM (
+        SELECT f.user_id AS parent, f.friend_id AS child
+        FROM public.friendships f WHERE f.user_id = ANY(bwd_open)
+        UNION
+        SELECT f.friend_id AS parent, f.user_id AS child
+        FROM public.friendships f WHERE f.friend_id = ANY(bwd_open)
+      ) e
+      WHERE e.child <> ALL(bwd_visited)
+        AND e.child <> ALL(blocked);
+
+      bwd_child := bwd_child || new_child;
+      bwd_parent := bwd_parent || new_parent;
+      bwd_visited := bwd_visited || bwd_frontier;
+
+      SELECT COALESCE(array_agg(m), '{}') INTO meeting
+      FROM unnest(bwd_frontier) m
+      WHERE m = ANY(fwd_visited);
+    END IF;
+  END LOOP;
+
+  IF cardinality(meeting) = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH RECURSIVE fwd_pairs AS (
+    SELECT t.child, t.parent FROM unnest(fwd_child, fwd_parent) AS t(child, parent)
+  ),
+  bwd_pairs AS (
+    SELECT t.child, t.parent FROM unnest(bwd_child, bwd_parent) AS t(child, parent)
+  ),
+  -- Walk parents back from each meeting node to me...
+  fwd_paths(meet, node, chain) AS (
+    SELECT m, m, ARRAY[m] FROM unnest(meeting) m
+    UNION ALL
+    SELECT w.meet, pr.parent, pr.parent || w.chain
+    FROM fwd_paths w
+    JOIN fwd_pairs pr ON pr.child = w.node
+  ),
+  -- ...and forward from each meeting node to the target
+  bwd_paths(meet, node, chain) AS (
+    SELECT m, m, ARRAY[m] FROM unnest(meeting) m
+    UNION ALL
+    SELECT w.meet, pr.parent, w.chain || pr.parent
+    FROM bwd_paths w
+    JOIN bwd_pairs pr ON pr.child = w.node
+  ),
+  chains AS (
+    SELECT DISTINCT f.chain || b.chain[2:] AS chain
+    FROM fwd_paths f
+    JOIN bwd_paths b ON b.meet = f.meet
+    WHERE f.node = requester AND b.node = p_target_id
+  ),
+  shortest AS (
+    SELECT c.chain FROM chains c
+    WHERE cardinality(c.chain) = (SELECT MIN(cardinality(c2.chain)) FROM chains c2)
+    ORDER BY c.chain
+    LIMIT p_max_paths
+  )
+  SELECT
+    s.chain AS path,
+    ARRAY(
+      SELECT p.name
+      FROM unnest(s.chain) WITH ORDINALITY AS u(uid, ord)
+      JOIN public.profiles p ON p.user_id = u.uid
+      ORDER BY u.ord
+    ) AS names
+  FROM shortest s;
+END;
+$function$;
+
+-- Degrees follow the same rule as connection paths: only friend lists the caller may see are
+-- expanded, so the degree badge never claims a connection "show connection" can't find
+CREATE OR REPLACE FUNCTION public.get_degrees_of_separation(p_max_depth integer DEFAULT 6)
+RETURNS TABLE (user_id uuid, degree integer)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  requester uuid := auth.uid();
+  blocked uuid[];
+  visited uuid[];
+  frontier uuid[];
+  expandable uuid[];
+  depth integer := 0;
+BEGIN
+  IF requester IS NULL THEN
+    RAISE EXCEPTION 'not authorized';
+  END IF;
+
+  SELECT COALESCE(array_agg(b.uid), '{}') INTO blocked
+  FROM (
+    SELECT bl.blocked_id AS uid FROM public.blocks bl WHERE bl.blocker_id = requester
+    UNION
+    SELECT bl.blocker_id AS uid FROM public.blocks bl WHERE bl.blocked_id = requester
+  ) b;
+
+  visited := ARRAY[requester];
+  frontier := ARRAY[requester];
+
+  WHILE depth < p_max_depth AND cardinality(frontier) > 0 LOOP
+    depth := depth + 1;
+
+    -- can_view_profile_field is always true for my own list
+    expandable := ARRAY(
+      SELECT n FROM unnest(frontier) n WHERE public.can_view_profile_field(n, 'friend_list')
+    );
+
+    SELECT COALESCE(array_agg(DISTINCT e.uid), '{}') INTO frontier
+    FROM (
+      SELECT f.friend_id AS uid FROM public.friendships f WHERE f.user_id = ANY(expandable)
+      UNION
+      SELECT f.user_id AS uid FROM public.friendships f WHERE f.friend_id = ANY(expandable)
+    ) e
+    WHERE e.uid <> ALL(visited)
+      AND e.uid <> ALL(blocked);
+
+    visited := visited || frontier;
+
+    RETURN QUERY SELECT u.uid, depth FROM unnest(frontier) AS u(uid);
+  END LOOP;
+END;
+$function$;
+
+-- Mutual friends name people on the candidate's friend list, so they're only listed when
+-- that list is visible; the count still ranks everyone
+CREATE OR REPLACE FUNCTION public.get_friend_suggestions(p_limit integer DEFAULT 24, p_offset integer DEFAULT 0)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  name text,
+  email text,
+  avatar_url text,
+  bio text,
+  created_at timestamptz,
+  mutual_friends integer,
+  mutual_friend_ids uuid[],
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  requester uuid := auth.uid();
+BEGIN
+  IF requester IS NULL THEN
+    RAISE EXCEPTION 'not authorized';
+  END IF;
+
+  RETURN QUERY
+  WITH blocked AS (
+    SELECT b.blocked_id AS uid FROM public.blocks b WHERE b.blocker_id = requester
+    UNION
+    SELECT b.blocker_id AS uid FROM public.blocks b WHERE b.blocked_id = requester
+  ),
+  my_friends AS (
+    SELECT f.friend_id AS uid FROM public.friendships f WHERE f.user_id = requester
+    UNION
+    SELECT f.user_id AS uid FROM public.friendships f WHERE f.friend_id = requester
+  ),
+  dismissed AS (
+    SELECT d.dismissed_user_id AS uid
+    FROM public.suggestion_dismissals d
+    WHERE d.user_id = requester
+      AND (d.snoozed_until IS NULL OR d.snoozed_until > now())
+  ),
+  mutuals AS (
+    -- For each second-degree candidate, collect the distinct friends of mine that link to them
+    SELECT
+      e.candidate,
+      COUNT(DISTINCT e.via)::integer AS mutual_friends,
+      array_agg(DISTINCT e.via) AS mutual_friend_ids
+    FROM (
+      SELECT f.friend_id AS candidate, f.user_id AS via
+      FROM public.friendships f
+      JOIN my_friends mf ON f.user_id = mf.uid
+      UNION ALL
+      SELECT f.user_id AS candidate, f.friend_id AS via
+      FROM public.friendships f
+      JOIN my_friends mf ON f.friend_id = mf.uid
+    ) e
+    GROUP BY e.candidate
+  )
+  SELECT
+    p.id,
+    p.user_id,
+    p.name,
+    p.email,
+    p.avatar_url,
+    p.bio,
+    p.created_at,
+    COALESCE(m.mutual_friends, 0) AS mutual_friends,
+    CASE WHEN public.can_view_profile_field(p.user_id, 'friend_list')
+      THEN COALESCE(m.mutual_friend_ids, '{}'::uuid[])
+      ELSE '{}'::uuid[]
+    END AS mutual_friend_ids,
+    COUNT(*) OVER () AS total_count
+  FROM public.profile_directory p
+  LEFT JOIN mutuals m ON m.candidate = p.user_id
+  WHERE p.user_id <> requester
+    AND p.user_id NOT IN (SELECT uid FROM my_friends)
+    AND p.user_id NOT IN (SELECT uid FROM dismissed)
+    AND p.user_id NOT IN (SELECT uid FROM blocked)
+  ORDER BY COALESCE(m.mutual_friends, 0) DESC, p.name ASC, p.user_id ASC
+  LIMIT LEAST(p_limit, 100)
+  OFFSET p_offset;
+END;
+$function$;
+
+-- Mutual friends on a profile page follow the owner's 'friend_list' visibility too
+CREATE OR REPLACE FUNCTION public.get_profile_summary(p_user_id uuid)
+RETURNS TABLE (friend_count integer, mutual_friend_ids uuid[])
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  requester uuid := auth.uid();
+BEGIN
+  IF requester IS NULL THEN
+    RAISE EXCEPTION 'not authorized';
+  END IF;
+
+  -- Blocked profiles don't exist as far as the other side is concerned
+  IF requester <> p_user_id AND public.is_blocked_between(requester, p_user_id) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    CASE WHEN public.can_view_profile_field(p_user_id, 'friend_count') THEN (
+      SELECT COUNT(*)::integer FROM public.friendships f WHERE f.user_id = p_user_id
+    ) END AS friend_count,
+    (
+      SELECT COALESCE(array_agg(theirs.friend_id), '{}'::uuid[])
+      FROM public.friendships theirs
+      JOIN public.friendships mine
+        ON mine.friend_id = theirs.friend_id AND mine.user_id = requester
+      WHERE theirs.user_id = p_user_id
+        AND requester <> p_user_id
+        AND public.can_view_profile_field(p_user_id, 'friend_list')
+    ) AS mutual_friend_ids;
+END;
+$function$;
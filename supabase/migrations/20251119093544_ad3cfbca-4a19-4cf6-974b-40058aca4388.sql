@@ -0,0 +1,34 @@
+-- Names users give to the communities detected in their network. Detection runs in the
+-- browser and its numbering isn't stable, so each name keeps the members it was given to
+-- and is matched back to whichever detected community overlaps it most.
+CREATE TABLE public.community_labels (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(user_id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 40),
+  member_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_community_labels_user_id ON public.community_labels(user_id);
+
+-- Enable RLS
+ALTER TABLE public.community_labels ENABLE ROW LEVEL SECURITY;
+
+-- Labels are private to the user who wrote them
+CREATE POLICY "Users can view their community labels"
+  ON public.community_labels FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create community labels"
+  ON public.community_labels FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their community labels"
+  ON public.community_labels FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their community labels"
+  ON public.community_labels FOR DELETE
+  USING (auth.uid() = user_id);